@@ -0,0 +1,215 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRouteSnapshot, NavigationEnd, Router } from '@angular/router';
+import { TranslateService } from '@ngx-translate/core';
+import { Subscription } from 'rxjs/Subscription';
+import 'rxjs/add/operator/filter';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseBreadcrumb, FuseBreadcrumbData } from '@fuse/types';
+
+/**
+ * Shows the trail of the current page
+ *
+ * The trail is taken from the navigation model (group -> collapse -> item)
+ * by matching the current url. The routes that are not in the navigation
+ * model, or are deeper than the matched item, can add their own crumbs with
+ * the `breadcrumb` in their route data:
+ *
+ * data   : {breadcrumb: {translate: 'ORDERS.ORDER', title: 'Order'}}
+ *
+ * To show a dynamic title such as "Order #1234", resolve the breadcrumb:
+ *
+ * resolve: {breadcrumb: OrderBreadcrumbResolver}
+ */
+@Component({
+    selector   : 'fuse-breadcrumbs',
+    templateUrl: './breadcrumbs.component.html',
+    styleUrls  : ['./breadcrumbs.component.scss']
+})
+export class FuseBreadcrumbsComponent implements OnInit, OnDestroy
+{
+    breadcrumbs: FuseBreadcrumb[];
+
+    // Private
+    private _subscriptions: Subscription[];
+
+    /**
+     * Constructor
+     *
+     * @param {Router} router
+     * @param {FuseNavigationService} fuseNavigationService
+     * @param {TranslateService} translateService
+     */
+    constructor(
+        private router: Router,
+        private fuseNavigationService: FuseNavigationService,
+        private translateService: TranslateService
+    )
+    {
+        // Set the defaults
+        this.breadcrumbs = [];
+        this._subscriptions = [];
+    }
+
+    /**
+     * On init
+     */
+    ngOnInit(): void
+    {
+        this._subscriptions.push(
+            this.router.events
+                .filter((event) => event instanceof NavigationEnd)
+                .subscribe(() => {
+                    this._updateBreadcrumbs();
+                }),
+
+            this.fuseNavigationService.onNavigationChanged
+                .subscribe(() => {
+                    this._updateBreadcrumbs();
+                }),
+
+            this.translateService.onLangChange
+                .subscribe(() => {
+                    this._updateBreadcrumbs();
+                })
+        );
+    }
+
+    /**
+     * On destroy
+     */
+    ngOnDestroy(): void
+    {
+        this._subscriptions.forEach((subscription) => {
+            subscription.unsubscribe();
+        });
+    }
+
+    /**
+     * Update the breadcrumbs of the current url
+     *
+     * @private
+     */
+    private _updateBreadcrumbs(): void
+    {
+        const url = this.router.url.split(/[?#]/)[0];
+        const entry = this.fuseNavigationService.getIndexEntryByUrl(url);
+        const routeBreadcrumbs = this._getRouteBreadcrumbs(this.router.routerState.snapshot.root, '');
+
+        // Fallback to the route breadcrumbs if
+        // the url is not in the navigation model
+        if ( !entry )
+        {
+            this.breadcrumbs = routeBreadcrumbs;
+
+            return;
+        }
+
+        const navigationBreadcrumbs = [...entry.parents, entry].map((item) => ({
+            title: item.title,
+            url  : item.url,
+            icon : item.icon
+        }));
+
+        // Only add the route breadcrumbs that are deeper than the matched item
+        this.breadcrumbs = [
+            ...navigationBreadcrumbs,
+            ...routeBreadcrumbs.filter((breadcrumb) => breadcrumb.url.startsWith(entry.url + '/'))
+        ];
+    }
+
+    /**
+     * Collect the breadcrumbs from the route data
+     * of the given route and its primary children
+     *
+     * @param {ActivatedRouteSnapshot} route
+     * @param {string} parentUrl
+     * @returns {FuseBreadcrumb[]}
+     * @private
+     */
+    private _getRouteBreadcrumbs(route: ActivatedRouteSnapshot, parentUrl: string): FuseBreadcrumb[]
+    {
+        const breadcrumbs: FuseBreadcrumb[] = [];
+        const segments = route.url.map((segment) => segment.path).join('/');
+        const url = segments ? parentUrl + '/' + segments : parentUrl;
+
+        // Routes with an empty path inherit the data of their parent,
+        // only use the breadcrumbs that the route declares itself
+        if ( route.data.breadcrumb && this._declaresBreadcrumb(route) )
+        {
+            const breadcrumb = this._createBreadcrumb(route.data.breadcrumb, url || '/');
+
+            if ( breadcrumb )
+            {
+                breadcrumbs.push(breadcrumb);
+            }
+        }
+
+        if ( route.firstChild )
+        {
+            breadcrumbs.push(...this._getRouteBreadcrumbs(route.firstChild, url));
+        }
+
+        return breadcrumbs;
+    }
+
+    /**
+     * Check if the given route declares a breadcrumb
+     * in its data or in its resolvers
+     *
+     * @param {ActivatedRouteSnapshot} route
+     * @returns {boolean}
+     * @private
+     */
+    private _declaresBreadcrumb(route: ActivatedRouteSnapshot): boolean
+    {
+        const config = route.routeConfig;
+
+        if ( !config )
+        {
+            return false;
+        }
+
+        return !!((config.data && config.data.breadcrumb) || (config.resolve && config.resolve.breadcrumb));
+    }
+
+    /**
+     * Create a breadcrumb from the given route data
+     *
+     * @param {FuseBreadcrumbData} data
+     * @param {string} url
+     * @returns {FuseBreadcrumb}
+     * @private
+     */
+    private _createBreadcrumb(data: FuseBreadcrumbData, url: string): FuseBreadcrumb
+    {
+        if ( typeof data === 'string' )
+        {
+            return {
+                title: data,
+                url
+            };
+        }
+
+        let title = data.title;
+
+        if ( data.translate )
+        {
+            const translation = this.translateService.instant(data.translate);
+
+            // Fallback to the title if there is no translation
+            title = translation !== data.translate ? translation : (data.title || data.translate);
+        }
+
+        if ( !title )
+        {
+            return null;
+        }
+
+        return {
+            title,
+            url,
+            icon: data.icon
+        };
+    }
+}
@@ -0,0 +1,25 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+
+import { MatIconModule } from '@angular/material';
+
+import { FuseBreadcrumbsComponent } from './breadcrumbs.component';
+
+@NgModule({
+    declarations: [
+        FuseBreadcrumbsComponent
+    ],
+    imports     : [
+        CommonModule,
+        RouterModule,
+
+        MatIconModule
+    ],
+    exports     : [
+        FuseBreadcrumbsComponent
+    ]
+})
+export class FuseBreadcrumbsModule
+{
+}
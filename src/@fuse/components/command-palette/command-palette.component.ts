@@ -0,0 +1,223 @@
+import { Component, ElementRef, HostListener, OnDestroy, ViewChild } from '@angular/core';
+import { Subscription } from 'rxjs/Subscription';
+
+import { FuseCommandPaletteResult } from '@fuse/types';
+import { FuseCommandPaletteService } from './command-palette.service';
+
+/**
+ * Command palette
+ *
+ * Opened with Ctrl+K or Cmd+K. The results are selected
+ * with the arrow keys and run with Enter. The focus is kept
+ * inside the palette while it's open and given back on close.
+ */
+@Component({
+    selector   : 'fuse-command-palette',
+    templateUrl: './command-palette.component.html',
+    styleUrls  : ['./command-palette.component.scss']
+})
+export class FuseCommandPaletteComponent implements OnDestroy
+{
+    visible: boolean;
+    query: string;
+    results: FuseCommandPaletteResult[];
+    selectedIndex: number;
+    defaultIcons: Record<FuseCommandPaletteResult['type'], string>;
+    typeLabels: Record<FuseCommandPaletteResult['type'], string>;
+    onVisibilityChanged: Subscription;
+
+    @ViewChild('searchInput') searchInput: ElementRef;
+    @ViewChild('resultsList') resultsList: ElementRef;
+
+    // Private
+    private _previouslyFocused: HTMLElement;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseCommandPaletteService} fuseCommandPaletteService
+     */
+    constructor(
+        private fuseCommandPaletteService: FuseCommandPaletteService
+    )
+    {
+        // Set the defaults
+        this.query = '';
+        this.results = [];
+        this.selectedIndex = 0;
+        this.defaultIcons = {
+            recent : 'history',
+            page   : 'insert_drive_file',
+            command: 'keyboard_arrow_right'
+        };
+        this.typeLabels = {
+            recent : 'Recent',
+            page   : 'Page',
+            command: 'Command'
+        };
+
+        this.onVisibilityChanged =
+            this.fuseCommandPaletteService.onVisibilityChanged
+                .subscribe(
+                    (visible) => {
+                        if ( visible === this.visible )
+                        {
+                            return;
+                        }
+
+                        this.visible = visible;
+
+                        if ( visible )
+                        {
+                            this._onOpen();
+                        }
+                        else
+                        {
+                            this._onClose();
+                        }
+                    }
+                );
+    }
+
+    /**
+     * On destroy
+     */
+    ngOnDestroy(): void
+    {
+        this.onVisibilityChanged.unsubscribe();
+    }
+
+    /**
+     * Toggle the palette with Ctrl+K or Cmd+K
+     *
+     * @param {KeyboardEvent} event
+     */
+    @HostListener('document:keydown', ['$event'])
+    onDocumentKeydown(event: KeyboardEvent): void
+    {
+        if ( (event.ctrlKey || event.metaKey) && !event.altKey && !event.shiftKey && event.key && event.key.toLowerCase() === 'k' )
+        {
+            event.preventDefault();
+            this.fuseCommandPaletteService.toggle();
+        }
+    }
+
+    /**
+     * Search with the given query
+     *
+     * @param {string} query
+     */
+    search(query: string): void
+    {
+        this.query = query;
+        this.results = this.fuseCommandPaletteService.search(query);
+        this.selectedIndex = 0;
+    }
+
+    /**
+     * Handle the keys of the search input
+     *
+     * @param {KeyboardEvent} event
+     */
+    onKeydown(event: KeyboardEvent): void
+    {
+        switch ( event.key )
+        {
+            case 'ArrowDown':
+                event.preventDefault();
+                this._select(this.selectedIndex + 1);
+                break;
+
+            case 'ArrowUp':
+                event.preventDefault();
+                this._select(this.selectedIndex - 1);
+                break;
+
+            case 'Enter':
+                event.preventDefault();
+
+                if ( this.results[this.selectedIndex] )
+                {
+                    this.run(this.results[this.selectedIndex]);
+                }
+                break;
+
+            case 'Escape':
+                event.preventDefault();
+                this.close();
+                break;
+        }
+    }
+
+    /**
+     * Run the given result
+     *
+     * @param {FuseCommandPaletteResult} result
+     */
+    run(result: FuseCommandPaletteResult): void
+    {
+        this.fuseCommandPaletteService.run(result);
+    }
+
+    /**
+     * Close the palette
+     */
+    close(): void
+    {
+        this.fuseCommandPaletteService.close();
+    }
+
+    /**
+     * Select the result at the given index, wraps around
+     * the ends and scrolls the result into the view
+     *
+     * @param {number} index
+     * @private
+     */
+    private _select(index: number): void
+    {
+        if ( !this.results.length )
+        {
+            return;
+        }
+
+        this.selectedIndex = (index + this.results.length) % this.results.length;
+
+        const element = this.resultsList.nativeElement.children[this.selectedIndex];
+
+        if ( element )
+        {
+            element.scrollIntoView({block: 'nearest'});
+        }
+    }
+
+    /**
+     * Reset the search and focus the input once it's rendered
+     *
+     * @private
+     */
+    private _onOpen(): void
+    {
+        this._previouslyFocused = document.activeElement as HTMLElement;
+        this.search('');
+
+        setTimeout(() => {
+            this.searchInput.nativeElement.focus();
+        });
+    }
+
+    /**
+     * Give the focus back to the element that had it before the palette
+     *
+     * @private
+     */
+    private _onClose(): void
+    {
+        if ( this._previouslyFocused && this._previouslyFocused.focus )
+        {
+            this._previouslyFocused.focus();
+        }
+
+        this._previouslyFocused = null;
+    }
+}
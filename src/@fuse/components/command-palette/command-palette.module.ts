@@ -0,0 +1,25 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { A11yModule } from '@angular/cdk/a11y';
+
+import { MatIconModule } from '@angular/material';
+
+import { FuseCommandPaletteComponent } from './command-palette.component';
+
+@NgModule({
+    declarations: [
+        FuseCommandPaletteComponent
+    ],
+    imports     : [
+        CommonModule,
+        A11yModule,
+
+        MatIconModule
+    ],
+    exports     : [
+        FuseCommandPaletteComponent
+    ]
+})
+export class FuseCommandPaletteModule
+{
+}
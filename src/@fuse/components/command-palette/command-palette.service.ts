@@ -0,0 +1,353 @@
+import { Injectable } from '@angular/core';
+import { NavigationEnd, Router } from '@angular/router';
+import { TranslateService } from '@ngx-translate/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import 'rxjs/add/operator/filter';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FuseCommand, FuseCommandPaletteResult, FuseRecentPage } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
+
+// Define the storage key of the recent pages
+const RECENT_PAGES_STORAGE_KEY = 'command-palette-recent-pages';
+
+// Define the maximum number of the recent pages
+const RECENT_PAGES_LIMIT = 5;
+
+// Define the maximum number of the results
+const RESULTS_LIMIT = 50;
+
+// Define how much the recent pages are preferred over the other results
+const RECENT_PAGE_BONUS = 2;
+
+/**
+ * Backs the command palette
+ *
+ * The palette searches the navigation index, the recently visited pages and
+ * the registered commands. Feature modules can register their own commands
+ * by injecting this service and calling `registerCommand`, the components
+ * that register commands should unregister them when they are destroyed.
+ */
+@Injectable()
+export class FuseCommandPaletteService
+{
+    onCommandsChanged: BehaviorSubject<FuseCommand[]>;
+    onRecentPagesChanged: BehaviorSubject<FuseRecentPage[]>;
+    onVisibilityChanged: BehaviorSubject<boolean>;
+
+    /**
+     * Constructor
+     *
+     * @param {Router} router
+     * @param {TranslateService} translateService
+     * @param {FuseNavigationService} fuseNavigationService
+     * @param {FuseStorage} fuseStorage
+     */
+    constructor(
+        private router: Router,
+        private translateService: TranslateService,
+        private fuseNavigationService: FuseNavigationService,
+        private fuseStorage: FuseStorage
+    )
+    {
+        // Set the defaults
+        this.onCommandsChanged = new BehaviorSubject([]);
+        this.onRecentPagesChanged = new BehaviorSubject([]);
+        this.onVisibilityChanged = new BehaviorSubject(false);
+
+        // Restore the recent pages, keep the ones
+        // that got visited while the storage was loading
+        this.fuseStorage.get(RECENT_PAGES_STORAGE_KEY)
+            .subscribe((pages) => {
+                if ( Array.isArray(pages) )
+                {
+                    const recentPages = this.onRecentPagesChanged.getValue();
+                    const urls = recentPages.map((page) => page.url);
+
+                    this.onRecentPagesChanged.next([...recentPages, ...pages.filter((page) => urls.indexOf(page.url) === -1)].slice(0, RECENT_PAGES_LIMIT));
+                }
+            });
+
+        // Record the visited pages that are in the navigation
+        this.router.events
+            .filter((event) => event instanceof NavigationEnd)
+            .subscribe((event: NavigationEnd) => {
+                this._addRecentPage(event.urlAfterRedirects);
+            });
+    }
+
+    /**
+     * Add the given command to the registry
+     *
+     * @param {FuseCommand} command
+     */
+    registerCommand(command: FuseCommand): void
+    {
+        const commands = this.onCommandsChanged.getValue();
+
+        // Check if the id already being used
+        if ( commands.some((item) => item.id === command.id) )
+        {
+            console.error(`The command with the id '${command.id}' already exists. Either unregister it first or use a unique id.`);
+
+            return;
+        }
+
+        this.onCommandsChanged.next([...commands, command]);
+    }
+
+    /**
+     * Remove the command with the given id from the registry
+     *
+     * @param {string} id
+     */
+    unregisterCommand(id: string): void
+    {
+        const commands = this.onCommandsChanged.getValue();
+
+        // Check if the command exists
+        if ( !commands.some((item) => item.id === id) )
+        {
+            console.error(`The command with the id '${id}' doesn't exist in the registry.`);
+
+            return;
+        }
+
+        this.onCommandsChanged.next(commands.filter((item) => item.id !== id));
+    }
+
+    /**
+     * Open the command palette
+     */
+    open(): void
+    {
+        this.onVisibilityChanged.next(true);
+    }
+
+    /**
+     * Close the command palette
+     */
+    close(): void
+    {
+        this.onVisibilityChanged.next(false);
+    }
+
+    /**
+     * Toggle the command palette
+     */
+    toggle(): void
+    {
+        this.onVisibilityChanged.next(!this.onVisibilityChanged.getValue());
+    }
+
+    /**
+     * Search the recent pages, the navigation and the commands with the
+     * given query. Without a query, the recent pages and the commands are
+     * returned in their order.
+     *
+     * @param {string} query
+     * @returns {FuseCommandPaletteResult[]}
+     */
+    search(query: string): FuseCommandPaletteResult[]
+    {
+        const recentResults = this._getRecentResults();
+        const commandResults = this._getCommandResults();
+
+        query = query ? query.trim() : '';
+
+        if ( !query )
+        {
+            return [...recentResults, ...commandResults];
+        }
+
+        // Leave out the pages that are already in the recent pages
+        const recentUrls = recentResults.map((result) => result.url);
+        const pageResults = this._getPageResults().filter((result) => recentUrls.indexOf(result.url) === -1);
+
+        return [...recentResults, ...pageResults, ...commandResults]
+            .map((result) => {
+                const score = Math.max(...this._getSearchTexts(result).map((text) => FuseUtils.fuzzyScore(text, query)));
+
+                return {
+                    ...result,
+                    score: score === -1 ? -1 : score + (result.type === 'recent' ? RECENT_PAGE_BONUS : 0)
+                };
+            })
+            .filter((result) => result.score !== -1)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, RESULTS_LIMIT);
+    }
+
+    /**
+     * Run the given result, either navigate to its page or run its command
+     *
+     * @param {FuseCommandPaletteResult} result
+     */
+    run(result: FuseCommandPaletteResult): void
+    {
+        this.close();
+
+        if ( result.command )
+        {
+            result.command.run();
+
+            return;
+        }
+
+        const entry = result.entry;
+
+        if ( entry && entry.externalUrl )
+        {
+            window.open(entry.url, entry.target || (entry.openInNewTab ? '_blank' : '_self'));
+
+            return;
+        }
+
+        if ( entry && !entry.url && entry.item.function )
+        {
+            entry.item.function();
+
+            return;
+        }
+
+        if ( result.type === 'recent' )
+        {
+            this.router.navigateByUrl(result.url);
+
+            return;
+        }
+
+        this.router.navigate([entry.url], {
+            queryParams: entry.queryParams,
+            fragment   : entry.fragment
+        });
+    }
+
+    /**
+     * Get the results of the recent pages that are still in the navigation
+     *
+     * @returns {FuseCommandPaletteResult[]}
+     * @private
+     */
+    private _getRecentResults(): FuseCommandPaletteResult[]
+    {
+        return this.onRecentPagesChanged.getValue()
+                   .map((page) => ({page, entry: this.fuseNavigationService.getIndexEntry(page.id)}))
+                   .filter(({entry}) => !!entry)
+                   .map(({page, entry}) => ({
+                       type    : 'recent',
+                       title   : entry.title,
+                       subtitle: page.url,
+                       icon    : entry.icon,
+                       url     : page.url,
+                       entry   : entry,
+                       score   : 0
+                   } as FuseCommandPaletteResult));
+    }
+
+    /**
+     * Get the results of the navigation items
+     *
+     * @returns {FuseCommandPaletteResult[]}
+     * @private
+     */
+    private _getPageResults(): FuseCommandPaletteResult[]
+    {
+        return this.fuseNavigationService.getFlatNavigation()
+                   .filter((entry) => !entry.item.hidden && (entry.url || entry.item.function))
+                   .map((entry) => ({
+                       type    : 'page',
+                       title   : entry.title,
+                       subtitle: entry.parents.map((parent) => parent.title).join(' / '),
+                       icon    : entry.icon,
+                       url     : entry.url,
+                       entry   : entry,
+                       score   : 0
+                   } as FuseCommandPaletteResult));
+    }
+
+    /**
+     * Get the results of the registered commands
+     *
+     * @returns {FuseCommandPaletteResult[]}
+     * @private
+     */
+    private _getCommandResults(): FuseCommandPaletteResult[]
+    {
+        return this.onCommandsChanged.getValue()
+                   .map((command) => ({
+                       type   : 'command',
+                       title  : this._getCommandTitle(command),
+                       icon   : command.icon,
+                       command: command,
+                       score  : 0
+                   } as FuseCommandPaletteResult));
+    }
+
+    /**
+     * Get the texts of the given result that the query is matched against
+     *
+     * @param {FuseCommandPaletteResult} result
+     * @returns {string[]}
+     * @private
+     */
+    private _getSearchTexts(result: FuseCommandPaletteResult): string[]
+    {
+        const texts = [result.title];
+
+        if ( result.subtitle )
+        {
+            texts.push(result.subtitle + ' ' + result.title);
+        }
+
+        if ( result.command && result.command.keywords )
+        {
+            texts.push(...result.command.keywords);
+        }
+
+        return texts;
+    }
+
+    /**
+     * Get the translated title of the given command
+     *
+     * @param {FuseCommand} command
+     * @returns {string}
+     * @private
+     */
+    private _getCommandTitle(command: FuseCommand): string
+    {
+        if ( !command.translate )
+        {
+            return command.title;
+        }
+
+        const title = this.translateService.instant(command.translate);
+
+        // Fallback to the title if there is no translation
+        return title !== command.translate ? title : command.title;
+    }
+
+    /**
+     * Add the page with the given url to the top of the recent pages
+     * and save them, if the page is in the navigation
+     *
+     * @param {string} url
+     * @private
+     */
+    private _addRecentPage(url: string): void
+    {
+        const entry = this.fuseNavigationService.getIndexEntryByUrl(url);
+
+        if ( !entry )
+        {
+            return;
+        }
+
+        const pages = this.onRecentPagesChanged.getValue().filter((page) => page.url !== url);
+
+        this.onRecentPagesChanged.next([{id: entry.id, url}, ...pages].slice(0, RECENT_PAGES_LIMIT));
+        this.fuseStorage.set(RECENT_PAGES_STORAGE_KEY, this.onRecentPagesChanged.getValue()).subscribe();
+    }
+}
@@ -1,3 +1,5 @@
+export * from './breadcrumbs/breadcrumbs.module';
+export * from './command-palette/command-palette.module';
 export * from './confirm-dialog/confirm-dialog.module';
 export * from './countdown/countdown.module';
 export * from './demo/demo.module';
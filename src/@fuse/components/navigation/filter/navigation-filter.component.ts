@@ -0,0 +1,59 @@
+import { Component, ElementRef, OnDestroy, ViewChild } from '@angular/core';
+import { Subscription } from 'rxjs/Subscription';
+
+import { FuseNavigationService } from '../navigation.service';
+
+@Component({
+    selector   : 'fuse-navigation-filter',
+    templateUrl: './navigation-filter.component.html',
+    styleUrls  : ['./navigation-filter.component.scss']
+})
+export class FuseNavigationFilterComponent implements OnDestroy
+{
+    query: string;
+    onFilterChanged: Subscription;
+
+    @ViewChild('filterInput') filterInput: ElementRef;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseNavigationService} fuseNavigationService
+     */
+    constructor(
+        private fuseNavigationService: FuseNavigationService
+    )
+    {
+        this.onFilterChanged =
+            this.fuseNavigationService.onFilterChanged
+                .subscribe(
+                    (query) => {
+                        this.query = query;
+                    }
+                );
+    }
+
+    ngOnDestroy()
+    {
+        this.onFilterChanged.unsubscribe();
+    }
+
+    /**
+     * Filter the navigation
+     *
+     * @param {string} query
+     */
+    filter(query: string)
+    {
+        this.fuseNavigationService.setFilter(query);
+    }
+
+    /**
+     * Clear the filter
+     */
+    clear()
+    {
+        this.filterInput.nativeElement.value = '';
+        this.fuseNavigationService.setFilter('');
+    }
+}
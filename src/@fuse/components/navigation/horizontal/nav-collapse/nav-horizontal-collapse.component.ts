@@ -1,7 +1,13 @@
-import { Component, HostBinding, HostListener, Input, OnDestroy } from '@angular/core';
+import { ChangeDetectorRef, Component, ElementRef, HostBinding, HostListener, Input, OnDestroy, Optional, SkipSelf, ViewChild } from '@angular/core';
+import { NavigationEnd, Router } from '@angular/router';
 import { fuseAnimations } from '../../../../animations/index';
 import { FuseConfigService } from '../../../../services/config.service';
 import { Subscription } from 'rxjs/Subscription';
+import 'rxjs/add/operator/filter';
+
+// Define how long the mouse events are ignored after a touch, the
+// browsers emulate the mouse events after the touch events
+const TOUCH_MOUSE_DELAY = 500;
 
 @Component({
     selector   : 'fuse-nav-horizontal-collapse',
@@ -12,26 +18,25 @@ import { Subscription } from 'rxjs/Subscription';
 export class FuseNavHorizontalCollapseComponent implements OnDestroy
 {
     onConfigChanged: Subscription;
+    onNavigationEnd: Subscription;
     fuseSettings: any;
     isOpen = false;
+    flipped = false;
 
     @HostBinding('class') classes = 'nav-item nav-collapse';
+    @HostBinding('attr.role') role = 'none';
     @Input() item: any;
+    @ViewChild('children') children: ElementRef;
 
-    @HostListener('mouseenter')
-    open()
-    {
-        this.isOpen = true;
-    }
-
-    @HostListener('mouseleave')
-    close()
-    {
-        this.isOpen = false;
-    }
+    // Private
+    private _lastTouchTime = 0;
 
     constructor(
-        private fuseConfig: FuseConfigService
+        private changeDetectorRef: ChangeDetectorRef,
+        private elementRef: ElementRef,
+        private fuseConfig: FuseConfigService,
+        private router: Router,
+        @Optional() @SkipSelf() private parent: FuseNavHorizontalCollapseComponent
     )
     {
         this.onConfigChanged =
@@ -41,10 +46,157 @@ export class FuseNavHorizontalCollapseComponent implements OnDestroy
                         this.fuseSettings = newSettings;
                     }
                 );
+
+        // Close the flyout after navigating
+        this.onNavigationEnd =
+            this.router.events
+                .filter((event) => event instanceof NavigationEnd)
+                .subscribe(() => {
+                    this.close();
+                });
     }
 
     ngOnDestroy()
     {
         this.onConfigChanged.unsubscribe();
+        this.onNavigationEnd.unsubscribe();
+    }
+
+    @HostListener('touchstart')
+    onTouchStart()
+    {
+        this._lastTouchTime = Date.now();
+    }
+
+    @HostListener('mouseenter')
+    onMouseEnter()
+    {
+        if ( this._isTouch() )
+        {
+            return;
+        }
+
+        this.open();
+    }
+
+    @HostListener('mouseleave')
+    onMouseLeave()
+    {
+        if ( this._isTouch() )
+        {
+            return;
+        }
+
+        this.close();
+    }
+
+    /**
+     * Close the flyout on clicks outside of it
+     *
+     * @param event
+     */
+    @HostListener('document:click', ['$event'])
+    onDocumentClick(event)
+    {
+        if ( !this.elementRef.nativeElement.contains(event.target) )
+        {
+            this.close();
+        }
+    }
+
+    @HostListener('document:keydown.escape')
+    onEscape()
+    {
+        this.close();
+    }
+
+    /**
+     * Toggle the flyout, there is no hover on
+     * the touch devices so they use the clicks
+     *
+     * The mouse already opened the flyout on hover, so clicking
+     * with the mouse keeps it open. The keyboard clicks (the
+     * ones without a click count) toggle it like the touches.
+     *
+     * @param ev
+     */
+    toggleOpen(ev)
+    {
+        ev.preventDefault();
+
+        if ( this.isOpen && (this._isTouch() || ev.detail === 0) )
+        {
+            this.close();
+        }
+        else
+        {
+            this.open();
+        }
+    }
+
+    /**
+     * Open the flyout
+     */
+    open()
+    {
+        if ( this.isOpen )
+        {
+            return;
+        }
+
+        this.isOpen = true;
+        this._updatePosition();
+    }
+
+    /**
+     * Close the flyout
+     */
+    close()
+    {
+        this.isOpen = false;
+    }
+
+    /**
+     * Track the items by their id so they won't be
+     * re-rendered when the navigation model changes
+     *
+     * @param index
+     * @param item
+     * @returns {string}
+     */
+    trackById(index, item)
+    {
+        return item.id;
+    }
+
+    /**
+     * Open the flyout to the side its parent opened to, and
+     * flip it to the other side if it doesn't fit in the viewport
+     *
+     * @private
+     */
+    private _updatePosition()
+    {
+        // Render the flyout on the side of its parent to measure it
+        this.flipped = this.parent ? this.parent.flipped : false;
+        this.changeDetectorRef.detectChanges();
+
+        const rect = this.children.nativeElement.getBoundingClientRect();
+
+        if ( this.flipped ? rect.left < 0 : rect.right > window.innerWidth )
+        {
+            this.flipped = !this.flipped;
+        }
+    }
+
+    /**
+     * Check if the current event is emulated from a touch
+     *
+     * @returns {boolean}
+     * @private
+     */
+    private _isTouch()
+    {
+        return Date.now() - this._lastTouchTime < TOUCH_MOUSE_DELAY;
     }
 }
@@ -8,5 +8,6 @@ import { Component, HostBinding, Input } from '@angular/core';
 export class FuseNavHorizontalItemComponent
 {
     @HostBinding('class') classes = 'nav-item';
+    @HostBinding('attr.role') role = 'none';
     @Input() item: any;
 }
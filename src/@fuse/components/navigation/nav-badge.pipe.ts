@@ -0,0 +1,50 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+import { FuseNavigationBadge } from '@fuse/types';
+
+// Define the default maximum number that is shown in the badges
+const DEFAULT_BADGE_MAX = 99;
+
+/**
+ * Return the badge to display, or null if the badge should be hidden.
+ * The badges are hidden at zero and the numbers above the `max` of
+ * the badge are capped, e.g. '99+'.
+ */
+@Pipe({name: 'fuseNavBadge'})
+export class FuseNavBadgePipe implements PipeTransform
+{
+    transform(badge: FuseNavigationBadge): FuseNavigationBadge
+    {
+        if ( !badge )
+        {
+            return null;
+        }
+
+        const title = badge.title;
+
+        // Return as is if the title is not a number
+        if ( title === undefined || title === null || title === '' || isNaN(+title) )
+        {
+            return badge;
+        }
+
+        // Hide at zero
+        if ( +title === 0 )
+        {
+            return null;
+        }
+
+        // Cap the number
+        const max = badge.max || DEFAULT_BADGE_MAX;
+
+        if ( +title > max )
+        {
+            return {
+                ...badge,
+                title: max + '+'
+            };
+        }
+
+        return badge;
+    }
+}
@@ -0,0 +1,69 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+import { FuseNavigationService } from './navigation.service';
+import { FuseNavigationItem } from '@fuse/types';
+
+/**
+ * Return the translated title of the given item as HTML
+ * with the parts that match the given query highlighted.
+ * It's impure so it follows the language changes.
+ */
+@Pipe({
+    name: 'fuseNavHighlight',
+    pure: false
+})
+export class FuseNavHighlightPipe implements PipeTransform
+{
+    /**
+     * Constructor
+     *
+     * @param {FuseNavigationService} fuseNavigationService
+     */
+    constructor(
+        private fuseNavigationService: FuseNavigationService
+    )
+    {
+    }
+
+    transform(item: FuseNavigationItem, query: string): string
+    {
+        const title = this.fuseNavigationService.getItemTitle(item) || '';
+
+        if ( !query )
+        {
+            return this._escape(title);
+        }
+
+        const lowerCaseTitle = title.toLowerCase();
+        const lowerCaseQuery = query.toLowerCase();
+        let html = '';
+        let position = 0;
+        let index = lowerCaseTitle.indexOf(lowerCaseQuery);
+
+        while ( index !== -1 )
+        {
+            html += this._escape(title.substring(position, index));
+            html += '<mark class="nav-link-highlight">' + this._escape(title.substr(index, query.length)) + '</mark>';
+
+            position = index + query.length;
+            index = lowerCaseTitle.indexOf(lowerCaseQuery, position);
+        }
+
+        return html + this._escape(title.substring(position));
+    }
+
+    /**
+     * Escape the given text to use it in HTML
+     *
+     * @param {string} text
+     * @returns {string}
+     * @private
+     */
+    private _escape(text: string): string
+    {
+        return text.replace(/&/g, '&amp;')
+                   .replace(/</g, '&lt;')
+                   .replace(/>/g, '&gt;')
+                   .replace(/"/g, '&quot;');
+    }
+}
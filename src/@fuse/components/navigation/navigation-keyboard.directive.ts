@@ -0,0 +1,662 @@
+import {
+    AfterViewInit, ChangeDetectorRef, Directive, ElementRef, HostListener, Input, NgZone, OnChanges, OnDestroy, Renderer2, SimpleChanges
+} from '@angular/core';
+import { NavigationEnd, Router } from '@angular/router';
+import { Subscription } from 'rxjs/Subscription';
+import 'rxjs/add/operator/filter';
+
+import { FuseNavigationItem } from '@fuse/types';
+import { FuseNavigationService } from './navigation.service';
+
+// Define the selector of the focusable navigation items
+const ITEM_SELECTOR = '.nav-link[role="treeitem"], .nav-link[role="menuitem"]';
+
+// Define how long the type-ahead keeps the typed characters
+const TYPE_AHEAD_DELAY = 500;
+
+/**
+ * Keyboard navigation of the tree (vertical) and the menubar (horizontal)
+ * layouts, with only one item in the tab order at a time (roving tabindex)
+ */
+@Directive({
+    selector: '[fuseNavigationKeyboard]'
+})
+export class FuseNavigationKeyboardDirective implements OnChanges, AfterViewInit, OnDestroy
+{
+    @Input('fuseNavigationKeyboard') layout: string;
+    @Input() navigation: FuseNavigationItem[];
+
+    onNavigationEnd: Subscription;
+    onExpandedItemsChanged: Subscription;
+
+    // Private
+    private _typeAheadQuery = '';
+    private _typeAheadTimeout: any;
+    private _tabbableTimeout: any;
+
+    /**
+     * Constructor
+     *
+     * @param {ChangeDetectorRef} changeDetectorRef
+     * @param {ElementRef} elementRef
+     * @param {NgZone} ngZone
+     * @param {Renderer2} renderer
+     * @param {Router} router
+     * @param {FuseNavigationService} fuseNavigationService
+     */
+    constructor(
+        private changeDetectorRef: ChangeDetectorRef,
+        private elementRef: ElementRef,
+        private ngZone: NgZone,
+        private renderer: Renderer2,
+        private router: Router,
+        private fuseNavigationService: FuseNavigationService
+    )
+    {
+        // The active item and the expanded items change
+        // after the navigation and with expand/collapse all
+        this.onNavigationEnd =
+            this.router.events
+                .filter((event) => event instanceof NavigationEnd)
+                .subscribe(() => {
+                    this._scheduleTabbableUpdate();
+                });
+
+        this.onExpandedItemsChanged =
+            this.fuseNavigationService.onExpandedItemsChanged
+                .subscribe(() => {
+                    this._scheduleTabbableUpdate();
+                });
+    }
+
+    /**
+     * On changes
+     *
+     * @param {SimpleChanges} changes
+     */
+    ngOnChanges(changes: SimpleChanges): void
+    {
+        if ( changes.navigation || changes.layout )
+        {
+            this._scheduleTabbableUpdate();
+        }
+    }
+
+    /**
+     * After view init
+     */
+    ngAfterViewInit(): void
+    {
+        this._scheduleTabbableUpdate();
+    }
+
+    /**
+     * On destroy
+     */
+    ngOnDestroy(): void
+    {
+        clearTimeout(this._tabbableTimeout);
+
+        this.onNavigationEnd.unsubscribe();
+        this.onExpandedItemsChanged.unsubscribe();
+    }
+
+    /**
+     * The collapses open and close with the clicks and
+     * the flyouts close when the mouse or the focus leaves
+     */
+    @HostListener('click')
+    @HostListener('mouseleave')
+    @HostListener('focusout')
+    onCollapseToggle(): void
+    {
+        this._scheduleTabbableUpdate();
+    }
+
+    /**
+     * Make the focused item the one in the tab order
+     *
+     * @param {FocusEvent} event
+     */
+    @HostListener('focusin', ['$event'])
+    onFocusIn(event: FocusEvent): void
+    {
+        const item = event.target as HTMLElement;
+
+        if ( this._getItems().indexOf(item) !== -1 )
+        {
+            this._setTabbable(item);
+        }
+    }
+
+    /**
+     * Handle the keyboard navigation
+     *
+     * @param {KeyboardEvent} event
+     */
+    @HostListener('keydown', ['$event'])
+    onKeydown(event: KeyboardEvent): void
+    {
+        const item = event.target as HTMLElement;
+
+        if ( this._getItems().indexOf(item) === -1 )
+        {
+            return;
+        }
+
+        const handled = this.layout === 'horizontal' ? this._handleMenubarKey(event, item) : this._handleTreeKey(event, item);
+
+        // Handled keys shouldn't scroll the page or
+        // reach the document listeners of the flyouts
+        if ( handled )
+        {
+            event.preventDefault();
+            event.stopPropagation();
+        }
+    }
+
+
+    /**
+     * Handle the keys of the tree pattern
+     *
+     * @param {KeyboardEvent} event
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _handleTreeKey(event: KeyboardEvent, item: HTMLElement): boolean
+    {
+        const items = this._getItems().filter((visibleItem) => this._isVisible(visibleItem));
+        const index = items.indexOf(item);
+
+        switch ( event.key )
+        {
+            case 'ArrowDown':
+                this._focus(items[index + 1]);
+                return true;
+
+            case 'ArrowUp':
+                this._focus(items[index - 1]);
+                return true;
+
+            case 'Home':
+                this._focus(items[0]);
+                return true;
+
+            case 'End':
+                this._focus(items[items.length - 1]);
+                return true;
+
+            case 'ArrowRight':
+                if ( this._isCollapse(item) )
+                {
+                    if ( this._isExpanded(item) )
+                    {
+                        this._focus(this._getChildItems(item)[0]);
+                    }
+                    else
+                    {
+                        this._toggle(item);
+                    }
+                }
+                return true;
+
+            case 'ArrowLeft':
+                if ( this._isCollapse(item) && this._isExpanded(item) )
+                {
+                    this._toggle(item);
+                }
+                else
+                {
+                    this._focus(this._getParentItem(item));
+                }
+                return true;
+
+            case 'Enter':
+            case ' ':
+                item.click();
+                return true;
+
+            default:
+                return this._typeAhead(event, items, item);
+        }
+    }
+
+    /**
+     * Handle the keys of the menubar pattern
+     *
+     * @param {KeyboardEvent} event
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _handleMenubarKey(event: KeyboardEvent, item: HTMLElement): boolean
+    {
+        const parentItem = this._getParentItem(item);
+        const items = this._getSiblingItems(item);
+        const index = items.indexOf(item);
+        const nextItem = items[(index + 1) % items.length];
+        const previousItem = items[(index - 1 + items.length) % items.length];
+
+        switch ( event.key )
+        {
+            case 'ArrowRight':
+                if ( !parentItem )
+                {
+                    this._focus(nextItem);
+                }
+                else if ( this._isCollapse(item) )
+                {
+                    this._openMenu(item);
+                }
+                else
+                {
+                    this._moveToSiblingMenu(item, 1);
+                }
+                return true;
+
+            case 'ArrowLeft':
+                if ( !parentItem )
+                {
+                    this._focus(previousItem);
+                }
+                else if ( this._getParentItem(parentItem) )
+                {
+                    this._closeMenu(parentItem);
+                    this._focus(parentItem);
+                }
+                else
+                {
+                    this._moveToSiblingMenu(item, -1);
+                }
+                return true;
+
+            case 'ArrowDown':
+            case 'ArrowUp':
+                if ( !parentItem )
+                {
+                    if ( this._isCollapse(item) )
+                    {
+                        this._openMenu(item, event.key === 'ArrowUp');
+                    }
+                }
+                else
+                {
+                    this._focus(event.key === 'ArrowDown' ? nextItem : previousItem);
+                }
+                return true;
+
+            case 'Home':
+                this._focus(items[0]);
+                return true;
+
+            case 'End':
+                this._focus(items[items.length - 1]);
+                return true;
+
+            case 'Escape':
+                if ( !parentItem )
+                {
+                    return false;
+                }
+                this._closeMenu(parentItem);
+                this._focus(parentItem);
+                return true;
+
+            case 'Tab':
+                // Close the open menus when the focus leaves the menubar
+                this._closeMenu(this._getTopLevelItem(item));
+                return false;
+
+            case 'Enter':
+            case ' ':
+                if ( this._isCollapse(item) )
+                {
+                    this._openMenu(item);
+                }
+                else
+                {
+                    item.click();
+                }
+                return true;
+
+            default:
+                return this._typeAhead(event, items, item);
+        }
+    }
+
+    /**
+     * Close the menu of the given item and move to the next or
+     * the previous top level item and open its menu if it has one
+     *
+     * @param {HTMLElement} item
+     * @param {number} direction
+     * @private
+     */
+    private _moveToSiblingMenu(item: HTMLElement, direction: number): void
+    {
+        const topLevelItem = this._getTopLevelItem(item);
+        const topLevelItems = this._getSiblingItems(topLevelItem);
+        const index = topLevelItems.indexOf(topLevelItem);
+        const siblingItem = topLevelItems[(index + direction + topLevelItems.length) % topLevelItems.length];
+
+        this._closeMenu(topLevelItem);
+        this._focus(siblingItem);
+
+        if ( this._isCollapse(siblingItem) && !this._isExpanded(siblingItem) )
+        {
+            this._toggle(siblingItem);
+        }
+    }
+
+    /**
+     * Open the menu of the given item and
+     * focus its first or its last item
+     *
+     * @param {HTMLElement} item
+     * @param {boolean} focusLast
+     * @private
+     */
+    private _openMenu(item: HTMLElement, focusLast = false): void
+    {
+        if ( !this._isExpanded(item) )
+        {
+            this._toggle(item);
+        }
+
+        const childItems = this._getChildItems(item).filter((childItem) => this._getParentItem(childItem) === item);
+
+        this._focus(focusLast ? childItems[childItems.length - 1] : childItems[0]);
+    }
+
+    /**
+     * Close the menu of the given item along with its open sub menus
+     *
+     * @param {HTMLElement} item
+     * @private
+     */
+    private _closeMenu(item: HTMLElement): void
+    {
+        if ( !this._isCollapse(item) || !this._isExpanded(item) )
+        {
+            return;
+        }
+
+        // Close the deepest menus first
+        this._getChildItems(item)
+            .filter((childItem) => this._isCollapse(childItem) && this._isExpanded(childItem))
+            .reverse()
+            .forEach((childItem) => {
+                this._toggle(childItem);
+            });
+
+        this._toggle(item);
+    }
+
+    /**
+     * Move the focus to the items that start with the typed characters
+     *
+     * @param {KeyboardEvent} event
+     * @param {HTMLElement[]} items
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _typeAhead(event: KeyboardEvent, items: HTMLElement[], item: HTMLElement): boolean
+    {
+        if ( event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey )
+        {
+            return false;
+        }
+
+        clearTimeout(this._typeAheadTimeout);
+        this._typeAheadTimeout = setTimeout(() => {
+            this._typeAheadQuery = '';
+        }, TYPE_AHEAD_DELAY);
+
+        this._typeAheadQuery += event.key.toLowerCase();
+
+        // Start searching from the next item when a new search begins,
+        // and from the current item while the search continues
+        const start = items.indexOf(item) + (this._typeAheadQuery.length === 1 ? 1 : 0);
+        const orderedItems = [...items.slice(start), ...items.slice(0, start)];
+
+        this._focus(orderedItems.find((orderedItem) => this._getTitle(orderedItem).startsWith(this._typeAheadQuery)));
+
+        return true;
+    }
+
+    /**
+     * Get all the items
+     *
+     * @returns {HTMLElement[]}
+     * @private
+     */
+    private _getItems(): HTMLElement[]
+    {
+        return Array.from(this.elementRef.nativeElement.querySelectorAll(ITEM_SELECTOR));
+    }
+
+    /**
+     * Get the visible items within the children of the given collapse item
+     *
+     * @param {HTMLElement} item
+     * @returns {HTMLElement[]}
+     * @private
+     */
+    private _getChildItems(item: HTMLElement): HTMLElement[]
+    {
+        const children = item.nextElementSibling;
+
+        if ( !children )
+        {
+            return [];
+        }
+
+        return this._getItems().filter((childItem) => children.contains(childItem) && this._isVisible(childItem));
+    }
+
+    /**
+     * Get the visible items that have the same parent item as the given item
+     *
+     * @param {HTMLElement} item
+     * @returns {HTMLElement[]}
+     * @private
+     */
+    private _getSiblingItems(item: HTMLElement): HTMLElement[]
+    {
+        const parentItem = this._getParentItem(item);
+
+        return this._getItems().filter((siblingItem) => this._getParentItem(siblingItem) === parentItem && this._isVisible(siblingItem));
+    }
+
+    /**
+     * Get the collapse item that contains the given item
+     *
+     * @param {HTMLElement} item
+     * @returns {HTMLElement}
+     * @private
+     */
+    private _getParentItem(item: HTMLElement): HTMLElement
+    {
+        let element = item.parentElement;
+
+        while ( element && element !== this.elementRef.nativeElement )
+        {
+            if ( element.classList.contains('children') )
+            {
+                return element.previousElementSibling as HTMLElement;
+            }
+
+            element = element.parentElement;
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the top level item that contains the given item
+     *
+     * @param {HTMLElement} item
+     * @returns {HTMLElement}
+     * @private
+     */
+    private _getTopLevelItem(item: HTMLElement): HTMLElement
+    {
+        let parentItem = this._getParentItem(item);
+
+        while ( parentItem )
+        {
+            item = parentItem;
+            parentItem = this._getParentItem(item);
+        }
+
+        return item;
+    }
+
+    /**
+     * Check if all the collapse items
+     * containing the given item are expanded
+     *
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _isVisible(item: HTMLElement): boolean
+    {
+        let parentItem = this._getParentItem(item);
+
+        while ( parentItem )
+        {
+            if ( !this._isExpanded(parentItem) )
+            {
+                return false;
+            }
+
+            parentItem = this._getParentItem(parentItem);
+        }
+
+        return true;
+    }
+
+    /**
+     * Check if the given item is a collapse item
+     *
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _isCollapse(item: HTMLElement): boolean
+    {
+        return item.hasAttribute('aria-expanded');
+    }
+
+    /**
+     * Check if the given collapse item is expanded
+     *
+     * @param {HTMLElement} item
+     * @returns {boolean}
+     * @private
+     */
+    private _isExpanded(item: HTMLElement): boolean
+    {
+        return item.getAttribute('aria-expanded') === 'true';
+    }
+
+    /**
+     * Expand or collapse the given collapse item and update
+     * the view right away so its children can be focused
+     *
+     * @param {HTMLElement} item
+     * @private
+     */
+    private _toggle(item: HTMLElement): void
+    {
+        item.click();
+        this.changeDetectorRef.detectChanges();
+    }
+
+    /**
+     * Get the title of the given item for the type-ahead
+     *
+     * @param {HTMLElement} item
+     * @returns {string}
+     * @private
+     */
+    private _getTitle(item: HTMLElement): string
+    {
+        const title = item.querySelector('.nav-link-title');
+
+        return title ? title.textContent.trim().toLowerCase() : '';
+    }
+
+    /**
+     * Focus the given item
+     *
+     * @param {HTMLElement} item
+     * @private
+     */
+    private _focus(item: HTMLElement): void
+    {
+        if ( !item )
+        {
+            return;
+        }
+
+        this._setTabbable(item);
+        item.focus();
+    }
+
+    /**
+     * Make the given item the only item in the tab order
+     *
+     * @param {HTMLElement} item
+     * @private
+     */
+    private _setTabbable(item: HTMLElement): void
+    {
+        this._getItems().forEach((otherItem) => {
+            this.renderer.setAttribute(otherItem, 'tabindex', otherItem === item ? '0' : '-1');
+        });
+    }
+
+    /**
+     * Update the item in the tab order once the view is updated.
+     * It only changes the attributes, so there is no need for
+     * another change detection.
+     *
+     * @private
+     */
+    private _scheduleTabbableUpdate(): void
+    {
+        clearTimeout(this._tabbableTimeout);
+
+        this.ngZone.runOutsideAngular(() => {
+            this._tabbableTimeout = setTimeout(() => {
+                this._updateTabbable();
+            });
+        });
+    }
+
+    /**
+     * Keep exactly one visible item in the tab order, prefer
+     * the current one, then the active one, then the first one
+     *
+     * @private
+     */
+    private _updateTabbable(): void
+    {
+        const visibleItems = this._getItems().filter((item) => this._isVisible(item));
+
+        if ( !visibleItems.length )
+        {
+            return;
+        }
+
+        const tabbableItem = visibleItems.find((item) => item.getAttribute('tabindex') === '0') ||
+            visibleItems.find((item) => item.classList.contains('active')) ||
+            visibleItems[0];
+
+        this._setTabbable(tabbableItem);
+    }
+}
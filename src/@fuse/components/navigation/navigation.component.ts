@@ -1,5 +1,12 @@
 import { Component, Input, ViewEncapsulation } from '@angular/core';
 
+import { FuseNavigationItem, FuseReorderEvent } from '@fuse/types';
+import { FuseNavigationService, PINNED_GROUP_ID } from './navigation.service';
+
+/**
+ * Navigation, the top level items of the vertical layout
+ * can be reordered when `reorderable` is set
+ */
 @Component({
     selector     : 'fuse-navigation',
     templateUrl  : './navigation.component.html',
@@ -9,10 +16,94 @@ import { Component, Input, ViewEncapsulation } from '@angular/core';
 export class FuseNavigationComponent
 {
     @Input() layout = 'vertical';
-    @Input() navigation: any;
+    @Input() navigation: FuseNavigationItem[];
+    @Input() reorderable = false;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseNavigationService} fuseNavigationService
+     */
+    constructor(
+        private fuseNavigationService: FuseNavigationService
+    )
+    {
+    }
+
+    /**
+     * Track the items by their id so they won't be
+     * re-rendered when the navigation model changes
+     *
+     * @param index
+     * @param item
+     * @returns {string}
+     */
+    trackById(index, item)
+    {
+        return item.id;
+    }
+
+    /**
+     * Check if the given top level item can be dragged,
+     * the pinned group always stays on top
+     *
+     * @param {FuseNavigationItem} item
+     * @returns {boolean}
+     */
+    isReorderable(item: FuseNavigationItem): boolean
+    {
+        return this.reorderable && item.id !== PINNED_GROUP_ID;
+    }
 
-    constructor()
+    /**
+     * Check if the drag is started from the top level item itself,
+     * so the children of the groups and the collapses aren't dragged
+     * along with their parents
+     *
+     * @param {FuseNavigationItem} item
+     * @param {HTMLElement} container
+     * @param {HTMLElement} handle
+     * @returns {boolean}
+     */
+    isOwnHandle(item: FuseNavigationItem, container: HTMLElement, handle: HTMLElement): boolean
     {
+        let element = handle;
 
+        while ( element && !element.classList.contains('nav-item') )
+        {
+            element = element.parentElement;
+        }
+
+        return !!element && element.parentElement === container;
+    }
+
+    /**
+     * Move the reordered item with the navigation service,
+     * which doesn't count the pinned group
+     *
+     * @param {FuseReorderEvent} event
+     */
+    onReorder(event: FuseReorderEvent): void
+    {
+        const pinnedGroupCount = this._getPinnedGroupCount();
+        const toIndex = Math.max(event.toIndex, pinnedGroupCount);
+
+        if ( toIndex === event.fromIndex )
+        {
+            return;
+        }
+
+        this.fuseNavigationService.moveNavigationItem(event.item.id, toIndex - pinnedGroupCount);
+    }
+
+    /**
+     * Get the number of the pinned groups on top of the navigation
+     *
+     * @returns {number}
+     * @private
+     */
+    private _getPinnedGroupCount(): number
+    {
+        return this.navigation.length && this.navigation[0].id === PINNED_GROUP_ID ? 1 : 0;
     }
 }
@@ -1,11 +1,18 @@
 import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
-import { MatIconModule, MatRippleModule } from '@angular/material';
+import { MatButtonModule, MatIconModule, MatProgressSpinnerModule, MatRippleModule } from '@angular/material';
 
+import { NgxDnDModule } from '@swimlane/ngx-dnd';
 import { TranslateModule } from '@ngx-translate/core';
 
+import { FuseDirectivesModule } from '@fuse/directives/directives';
+
 import { FuseNavigationComponent } from './navigation.component';
+import { FuseNavigationKeyboardDirective } from './navigation-keyboard.directive';
+import { FuseNavBadgePipe } from './nav-badge.pipe';
+import { FuseNavHighlightPipe } from './nav-highlight.pipe';
+import { FuseNavigationFilterComponent } from './filter/navigation-filter.component';
 import { FuseNavVerticalItemComponent } from './vertical/nav-item/nav-vertical-item.component';
 import { FuseNavVerticalCollapseComponent } from './vertical/nav-collapse/nav-vertical-collapse.component';
 import { FuseNavVerticalGroupComponent } from './vertical/nav-group/nav-vertical-group.component';
@@ -17,16 +24,26 @@ import { FuseNavHorizontalCollapseComponent } from './horizontal/nav-collapse/na
         CommonModule,
         RouterModule,
 
+        MatButtonModule,
         MatIconModule,
+        MatProgressSpinnerModule,
         MatRippleModule,
 
-        TranslateModule.forChild()
+        NgxDnDModule,
+        TranslateModule.forChild(),
+
+        FuseDirectivesModule
     ],
     exports     : [
-        FuseNavigationComponent
+        FuseNavigationComponent,
+        FuseNavigationFilterComponent
     ],
     declarations: [
         FuseNavigationComponent,
+        FuseNavigationFilterComponent,
+        FuseNavigationKeyboardDirective,
+        FuseNavBadgePipe,
+        FuseNavHighlightPipe,
         FuseNavVerticalGroupComponent,
         FuseNavVerticalItemComponent,
         FuseNavVerticalCollapseComponent,
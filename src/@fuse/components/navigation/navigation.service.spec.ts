@@ -0,0 +1,233 @@
+import { EventEmitter } from '@angular/core';
+import { LangChangeEvent, TranslateService } from '@ngx-translate/core';
+import { of } from 'rxjs/observable/of';
+
+import { FusePermissionProvider } from '@fuse/services/permission.service';
+import { FuseNavigationItem } from '@fuse/types';
+import { FuseMemoryStorage } from '@fuse/testing/memory-storage';
+import { FuseNavigationService, PINNED_GROUP_ID } from './navigation.service';
+
+describe('FuseNavigationService', () => {
+    let fuseStorage: FuseMemoryStorage;
+    let translations: { [key: string]: string };
+    let onLangChange: EventEmitter<LangChangeEvent>;
+
+    const navigation: FuseNavigationItem[] = [
+        {
+            id      : 'applications',
+            title   : 'Applications',
+            type    : 'group',
+            children: [
+                {id: 'calendar', title: 'Calendar', type: 'item', url: '/apps/calendar'},
+                {id: 'mail', title: 'Mail', translate: 'NAV.MAIL', type: 'item', url: '/apps/mail'},
+                {
+                    id      : 'e-commerce',
+                    title   : 'E-Commerce',
+                    type    : 'collapse',
+                    children: [
+                        {id: 'products', title: 'Products', type: 'item', url: '/apps/e-commerce/products'}
+                    ]
+                },
+                {id: 'projects', title: 'Projects', type: 'collapse', childrenLoader: () => of([])}
+            ]
+        },
+        {id: 'pages', title: 'Pages', type: 'group', children: []},
+        {id: 'documentation', title: 'Documentation', type: 'group', children: []}
+    ];
+
+    function createService(): FuseNavigationService
+    {
+        const fusePermissionProvider: Partial<FusePermissionProvider> = {
+            onPermissionsChanged: of({roles: [], permissions: []})
+        };
+
+        const translateService: Partial<TranslateService> = {
+            onLangChange: onLangChange,
+            instant     : (key: string) => translations[key] || key
+        };
+
+        const service = new FuseNavigationService(
+            fusePermissionProvider as FusePermissionProvider,
+            translateService as TranslateService,
+            fuseStorage
+        );
+
+        service.setNavigation(navigation);
+
+        return service;
+    }
+
+    function getTopLevelIds(service: FuseNavigationService): string[]
+    {
+        return service.onNavigationChanged.getValue().map((item) => item.id);
+    }
+
+    beforeEach(() => {
+        fuseStorage = new FuseMemoryStorage();
+        translations = {};
+        onLangChange = new EventEmitter<LangChangeEvent>();
+    });
+
+    describe('registry', () => {
+
+        it('should register a copy of the given item', () => {
+            const service = createService();
+            const item: FuseNavigationItem = {id: 'chat', title: 'Chat', type: 'item', url: '/apps/chat'};
+
+            service.registerNavigationItem(item, 'applications');
+            item.title = 'Messages';
+
+            expect(service.getNavigationItem('chat').title).toBe('Chat');
+        });
+
+        it('should replace the updated item and its ancestors only', () => {
+            const service = createService();
+            const [applications, pages] = service.getNavigation();
+
+            service.updateNavigationItem('mail', {title: 'Inbox'});
+
+            expect(service.getNavigation()[0]).not.toBe(applications);
+            expect(service.getNavigation()[1]).toBe(pages);
+            expect(service.getNavigationItem('mail').title).toBe('Inbox');
+            expect(applications.children[1].title).toBe('Mail');
+        });
+
+        it('should replace the ancestors of the removed item only', () => {
+            const service = createService();
+            const [applications, pages] = service.getNavigation();
+
+            service.removeNavigationItem('mail');
+
+            expect(service.getNavigation()[1]).toBe(pages);
+            expect(service.getNavigationItem('mail')).toBeNull();
+            expect(applications.children.length).toBe(4);
+        });
+    });
+
+    describe('navigation index', () => {
+
+        it('should index the translated titles', () => {
+            translations['NAV.MAIL'] = 'Posta';
+
+            expect(createService().getIndexEntry('mail').title).toBe('Posta');
+        });
+
+        it('should rebuild the index and emit the navigation on a language change', () => {
+            const service = createService();
+            const onNavigationChanged = jasmine.createSpy('onNavigationChanged');
+
+            expect(service.getIndexEntry('mail').title).toBe('Mail');
+
+            service.onNavigationChanged.subscribe(onNavigationChanged);
+            onNavigationChanged.calls.reset();
+
+            translations['NAV.MAIL'] = 'Posta';
+            onLangChange.emit({lang: 'tr', translations});
+
+            expect(onNavigationChanged).toHaveBeenCalledTimes(1);
+            expect(service.getIndexEntry('mail').title).toBe('Posta');
+        });
+    });
+
+    describe('order', () => {
+
+        it('should restore the saved order', () => {
+            fuseStorage.values['navigation-order'] = ['documentation', 'applications'];
+
+            expect(getTopLevelIds(createService())).toEqual(['documentation', 'applications', 'pages']);
+        });
+
+        it('should ignore the unknown ids of the saved order', () => {
+            fuseStorage.values['navigation-order'] = ['removed', 'pages'];
+
+            expect(getTopLevelIds(createService())).toEqual(['pages', 'applications', 'documentation']);
+        });
+
+        it('should save the order', () => {
+            createService().setNavigationOrder(['pages']);
+
+            expect(fuseStorage.values['navigation-order']).toEqual(['pages']);
+        });
+
+        it('should save the order after moving an item', () => {
+            const service = createService();
+
+            service.moveNavigationItem('documentation', 0);
+
+            expect(getTopLevelIds(service)).toEqual(['documentation', 'applications', 'pages']);
+            expect(fuseStorage.values['navigation-order']).toEqual(['documentation', 'applications', 'pages']);
+        });
+
+        it('should forget the saved order on reset', () => {
+            fuseStorage.values['navigation-order'] = ['documentation'];
+
+            const service = createService();
+
+            service.resetNavigationOrder();
+
+            expect(getTopLevelIds(service)).toEqual(['applications', 'pages', 'documentation']);
+            expect(fuseStorage.values['navigation-order']).toBeUndefined();
+        });
+    });
+
+    describe('pinned items', () => {
+
+        it('should restore the pinned items into the pinned group', () => {
+            fuseStorage.values['navigation-pinned'] = ['mail'];
+
+            const pinnedGroup = createService().onNavigationChanged.getValue()[0];
+
+            expect(pinnedGroup.id).toBe(PINNED_GROUP_ID);
+            expect(pinnedGroup.children.map((item) => item.id)).toEqual(['mail']);
+        });
+
+        it('should save the pinned items', () => {
+            const service = createService();
+
+            service.setItemPinned('calendar', true);
+            service.setItemPinned('mail', true);
+            service.setItemPinned('calendar', false);
+
+            expect(fuseStorage.values['navigation-pinned']).toEqual(['mail']);
+        });
+
+        it('should not show the pinned group without the pinned items', () => {
+            fuseStorage.values['navigation-pinned'] = ['removed'];
+
+            expect(getTopLevelIds(createService())).toEqual(['applications', 'pages', 'documentation']);
+        });
+    });
+
+    describe('expanded items', () => {
+
+        it('should restore the expanded items', () => {
+            fuseStorage.values['navigation-expanded'] = ['e-commerce'];
+
+            expect(createService().isItemExpanded('e-commerce')).toBe(true);
+        });
+
+        it('should save the expanded items', () => {
+            const service = createService();
+
+            service.setItemExpanded('e-commerce', true);
+            service.setItemExpanded('projects', true);
+            service.setItemExpanded('e-commerce', false);
+
+            expect(fuseStorage.values['navigation-expanded']).toEqual(['projects']);
+        });
+
+        it('should expand all the collapse items that have their children', () => {
+            createService().expandAll();
+
+            expect(fuseStorage.values['navigation-expanded']).toEqual(['e-commerce']);
+        });
+
+        it('should save the collapsed items', () => {
+            fuseStorage.values['navigation-expanded'] = ['e-commerce', 'projects'];
+
+            createService().collapseAll();
+
+            expect(fuseStorage.values['navigation-expanded']).toEqual([]);
+        });
+    });
+});
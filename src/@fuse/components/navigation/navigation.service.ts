@@ -1,48 +1,982 @@
-import { EventEmitter, Injectable } from '@angular/core';
+import { Injectable } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
 import { Subject } from 'rxjs/Subject';
+import { Subscription } from 'rxjs/Subscription';
+import { of } from 'rxjs/observable/of';
+import 'rxjs/add/operator/do';
+import 'rxjs/add/operator/finally';
+import 'rxjs/add/operator/share';
+import 'rxjs/add/operator/take';
 
+import { FusePermissionProvider, FusePermissions } from '@fuse/services/permission.service';
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FuseNavigationBadge, FuseNavigationIndexEntry, FuseNavigationItem } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
+
+// Define the storage keys of the user's navigation state
+const EXPANDED_ITEMS_STORAGE_KEY = 'navigation-expanded';
+const ORDER_STORAGE_KEY = 'navigation-order';
+const PINNED_ITEMS_STORAGE_KEY = 'navigation-pinned';
+
+// Define the id of the group that holds the pinned items
+export const PINNED_GROUP_ID = 'pinned';
+
+/**
+ * Owns the navigation model along with its index, the expanded
+ * and the pinned items, the user's order and the filter
+ */
 @Injectable()
 export class FuseNavigationService
 {
-    flatNavigation: any[] = [];
-
     onItemCollapsed: Subject<any> = new Subject;
     onItemCollapseToggled: Subject<any> = new Subject;
+    onNavigationChanged: BehaviorSubject<FuseNavigationItem[]>;
+    onExpandedItemsChanged: BehaviorSubject<string[]>;
+    onFilterChanged: BehaviorSubject<string>;
+    onPinnedItemsChanged: BehaviorSubject<string[]>;
+
+    // Private
+    private _navigation: FuseNavigationItem[];
+    private _visibleNavigation: FuseNavigationItem[];
+    private _permissions: FusePermissions;
+    private _badgeSubscriptions: { [id: string]: Subscription } = {};
+    private _childrenRequests: { [id: string]: Observable<FuseNavigationItem[]> } = {};
+    private _expandedItemsBeforeFilter: string[] = [];
+    private _order: string[] = [];
+    private _index: { entries: FuseNavigationIndexEntry[], byId: { [id: string]: FuseNavigationIndexEntry } };
+
+    /**
+     * Constructor
+     *
+     * @param {FusePermissionProvider} fusePermissionProvider
+     * @param {TranslateService} translateService
+     * @param {FuseStorage} fuseStorage
+     */
+    constructor(
+        private fusePermissionProvider: FusePermissionProvider,
+        private translateService: TranslateService,
+        private fuseStorage: FuseStorage
+    )
+    {
+        // Set the defaults
+        this._navigation = [];
+        this._visibleNavigation = [];
+        this._permissions = {
+            roles      : [],
+            permissions: []
+        };
+        this.onNavigationChanged = new BehaviorSubject(this._visibleNavigation);
+        this.onExpandedItemsChanged = new BehaviorSubject([]);
+        this.onFilterChanged = new BehaviorSubject('');
+        this.onPinnedItemsChanged = new BehaviorSubject([]);
+
+        // Re-evaluate the navigation on every permission change
+        this.fusePermissionProvider.onPermissionsChanged
+            .subscribe((permissions) => {
+                this._permissions = permissions;
+                this._onNavigationChanged();
+            });
+
+        // Rebuild the index and re-filter the navigation on
+        // every language change to update the translated titles
+        this.translateService.onLangChange
+            .subscribe(() => {
+                this._onNavigationChanged();
+            });
+
+        // Restore the expanded items, keep the ones that
+        // got expanded while the storage was loading
+        this.fuseStorage.get(EXPANDED_ITEMS_STORAGE_KEY)
+            .subscribe((ids) => {
+                if ( Array.isArray(ids) )
+                {
+                    const expandedIds = this.onExpandedItemsChanged.getValue();
+
+                    this.onExpandedItemsChanged.next([...ids.filter((id) => expandedIds.indexOf(id) === -1), ...expandedIds]);
+                }
+            });
+
+        // Restore the user's order
+        this.fuseStorage.get(ORDER_STORAGE_KEY)
+            .subscribe((ids) => {
+                if ( Array.isArray(ids) )
+                {
+                    this._order = ids;
+                    this._onNavigationChanged();
+                }
+            });
+
+        // Restore the pinned items, keep the ones
+        // that got pinned while the storage was loading
+        this.fuseStorage.get(PINNED_ITEMS_STORAGE_KEY)
+            .subscribe((ids) => {
+                if ( Array.isArray(ids) )
+                {
+                    const pinnedIds = this.onPinnedItemsChanged.getValue();
+
+                    this.onPinnedItemsChanged.next([...ids.filter((id) => pinnedIds.indexOf(id) === -1), ...pinnedIds]);
+                    this._onNavigationChanged();
+                }
+            });
+    }
+
+    /**
+     * Set the navigation model, replaces the current one
+     *
+     * @param {FuseNavigationItem[]} navigation
+     */
+    setNavigation(navigation: FuseNavigationItem[]): void
+    {
+        // Work on a copy so the given model stays intact
+        this._navigation = FuseUtils.cloneDeep(navigation);
+
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Get the navigation model, including
+     * the items that are not accessible
+     *
+     * @returns {FuseNavigationItem[]}
+     */
+    getNavigation(): FuseNavigationItem[]
+    {
+        return this._navigation;
+    }
+
+    /**
+     * Register the given item to the navigation, either as a
+     * child of the given parent or to the root of the model
+     *
+     * @param {FuseNavigationItem} item
+     * @param {string} parentId
+     */
+    registerNavigationItem(item: FuseNavigationItem, parentId?: string): void
+    {
+        // Check if the id already being used
+        if ( this.getNavigationItem(item.id) )
+        {
+            console.error(`The navigation item with the id '${item.id}' already exists. Either remove it first or use a unique id.`);
+
+            return;
+        }
+
+        // Work on a copy so the given item stays intact
+        item = FuseUtils.cloneDeep(item);
+
+        // Add to the root of the model
+        if ( !parentId )
+        {
+            this._navigation = [...this._navigation, item];
+            this._onNavigationChanged();
+
+            return;
+        }
+
+        // Check if the parent exists
+        if ( !this.getNavigationItem(parentId) )
+        {
+            console.error(`The navigation item with the id '${parentId}' doesn't exist in the navigation.`);
+
+            return;
+        }
+
+        // Add to the children of the parent
+        this._navigation = this._replaceItem(parentId, this._navigation, (parent) => ({
+            ...parent,
+            children: [...(parent.children || []), item]
+        }));
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Get the navigation item with the given id
+     *
+     * @param {string} id
+     * @param {FuseNavigationItem[]} navigation
+     * @returns {FuseNavigationItem}
+     */
+    getNavigationItem(id: string, navigation: FuseNavigationItem[] = this._navigation): FuseNavigationItem
+    {
+        for ( const item of navigation )
+        {
+            if ( item.id === id )
+            {
+                return item;
+            }
+
+            if ( item.children )
+            {
+                const childItem = this.getNavigationItem(id, item.children);
+
+                if ( childItem )
+                {
+                    return childItem;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Update the navigation item with the given id
+     *
+     * @param {string} id
+     * @param {Partial<FuseNavigationItem>} properties
+     */
+    updateNavigationItem(id: string, properties: Partial<FuseNavigationItem>): void
+    {
+        // Check if the item exists
+        if ( !this.getNavigationItem(id) )
+        {
+            console.error(`The navigation item with the id '${id}' doesn't exist in the navigation.`);
+
+            return;
+        }
+
+        // Update the item
+        this._navigation = this._replaceItem(id, this._navigation, (item) => ({
+            ...item,
+            ...properties
+        }));
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Remove the navigation item with the given id
+     *
+     * @param {string} id
+     */
+    removeNavigationItem(id: string): void
+    {
+        // Check if the item exists
+        if ( !this.getNavigationItem(id) )
+        {
+            console.error(`The navigation item with the id '${id}' doesn't exist in the navigation.`);
+
+            return;
+        }
+
+        // Stop updating its badge
+        this.unbindBadge(id);
+
+        // Remove the item
+        this._navigation = this._replaceItem(id, this._navigation, () => null);
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Update the badge of the navigation item with the given id.
+     * Setting a title drops the badge's translation unless a new
+     * translation is given.
+     *
+     * @param {string} id
+     * @param {FuseNavigationBadge} badge
+     */
+    updateBadge(id: string, badge: FuseNavigationBadge): void
+    {
+        const item = this.getNavigationItem(id);
+
+        if ( !item )
+        {
+            console.error(`The navigation item with the id '${id}' doesn't exist in the navigation.`);
+
+            return;
+        }
+
+        const newBadge = {
+            ...item.badge,
+            ...badge
+        };
+
+        if ( badge.hasOwnProperty('title') && !badge.hasOwnProperty('translate') )
+        {
+            delete newBadge.translate;
+        }
+
+        this.updateNavigationItem(id, {badge: newBadge});
+    }
+
+    /**
+     * Update the badge of the navigation item with the given id from the
+     * given source. The source can emit either the title or the badge.
+     * Binding a new source replaces the previous one.
+     *
+     * @param {string} id
+     * @param {Observable<string | number | FuseNavigationBadge>} source
+     * @returns {Subscription}
+     */
+    bindBadge(id: string, source: Observable<string | number | FuseNavigationBadge>): Subscription
+    {
+        this.unbindBadge(id);
+
+        this._badgeSubscriptions[id] =
+            source.subscribe((value) => {
+                if ( typeof value === 'string' || typeof value === 'number' )
+                {
+                    this.updateBadge(id, {title: value});
+                }
+                else
+                {
+                    this.updateBadge(id, value);
+                }
+            });
+
+        return this._badgeSubscriptions[id];
+    }
+
+    /**
+     * Stop updating the badge of the navigation
+     * item with the given id from its source
+     *
+     * @param {string} id
+     */
+    unbindBadge(id: string): void
+    {
+        if ( !this._badgeSubscriptions[id] )
+        {
+            return;
+        }
+
+        this._badgeSubscriptions[id].unsubscribe();
+        delete this._badgeSubscriptions[id];
+    }
+
+    /**
+     * Load the children of the given item with its children loader
+     * and store them in the model. Emits the cached children if they
+     * are already loaded, unless the refresh option is set.
+     *
+     * @param {string} id
+     * @param {{refresh?: boolean}} options
+     * @returns {Observable<FuseNavigationItem[]>}
+     */
+    loadChildren(id: string, options: { refresh?: boolean } = {}): Observable<FuseNavigationItem[]>
+    {
+        // Check if the item exists
+        const item = this.getNavigationItem(id);
+
+        if ( !item )
+        {
+            console.error(`The navigation item with the id '${id}' doesn't exist in the navigation.`);
+
+            return of([]);
+        }
+
+        if ( !item.childrenLoader || (item.children && !options.refresh) )
+        {
+            return of(item.children || []);
+        }
+
+        // Share the request with the other callers while it's in progress
+        if ( !this._childrenRequests[id] )
+        {
+            this._childrenRequests[id] =
+                item.childrenLoader()
+                    .take(1)
+                    .do((children) => {
+                        this.updateNavigationItem(id, {children});
+                    })
+                    .finally(() => {
+                        delete this._childrenRequests[id];
+                    })
+                    .share();
+        }
+
+        return this._childrenRequests[id];
+    }
+
+    /**
+     * Check if the given collapse item is expanded
+     *
+     * @param {string} id
+     * @returns {boolean}
+     */
+    isItemExpanded(id: string): boolean
+    {
+        return this.onExpandedItemsChanged.getValue().indexOf(id) !== -1;
+    }
+
+    /**
+     * Expand or collapse the given collapse item
+     *
+     * @param {string} id
+     * @param {boolean} expanded
+     */
+    setItemExpanded(id: string, expanded: boolean): void
+    {
+        if ( this.isItemExpanded(id) === expanded )
+        {
+            return;
+        }
+
+        const ids = this.onExpandedItemsChanged.getValue().filter((itemId) => itemId !== id);
+
+        this._setExpandedItems(expanded ? [...ids, id] : ids);
+    }
+
+    /**
+     * Expand all the collapse items, except the ones
+     * that still need to load their children
+     */
+    expandAll(): void
+    {
+        const ids = this._getIndex().entries
+                        .filter((entry) => entry.type === 'collapse' && (!entry.item.childrenLoader || entry.item.children))
+                        .map((entry) => entry.id);
+
+        this._setExpandedItems(ids);
+    }
+
+    /**
+     * Collapse all the collapse items
+     */
+    collapseAll(): void
+    {
+        this._setExpandedItems([]);
+    }
+
+    /**
+     * Set the order of the top level items. The items that are not
+     * in the given ids keep their previous order after the given ones.
+     *
+     * @param {string[]} ids
+     */
+    setNavigationOrder(ids: string[]): void
+    {
+        this._order = [...ids, ...this._order.filter((id) => ids.indexOf(id) === -1)];
+        this.fuseStorage.set(ORDER_STORAGE_KEY, this._order).subscribe();
+
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Move the top level item with the given id to the given index
+     * among the visible top level items and save the new order
+     *
+     * @param {string} id
+     * @param {number} toIndex
+     */
+    moveNavigationItem(id: string, toIndex: number): void
+    {
+        const ids = this._visibleNavigation.map((item) => item.id);
+        const fromIndex = ids.indexOf(id);
+
+        // Check if the item is a visible top level item
+        if ( fromIndex === -1 )
+        {
+            console.error(`The navigation item with the id '${id}' isn't a visible top level item.`);
+
+            return;
+        }
+
+        if ( fromIndex === toIndex )
+        {
+            return;
+        }
+
+        ids.splice(fromIndex, 1);
+        ids.splice(Math.min(Math.max(toIndex, 0), ids.length), 0, id);
+
+        this.setNavigationOrder(ids);
+    }
+
+    /**
+     * Restore the order of the top level items to the model's order
+     */
+    resetNavigationOrder(): void
+    {
+        this._order = [];
+        this.fuseStorage.remove(ORDER_STORAGE_KEY).subscribe();
+
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Check if the given item is pinned
+     *
+     * @param {string} id
+     * @returns {boolean}
+     */
+    isItemPinned(id: string): boolean
+    {
+        return this.onPinnedItemsChanged.getValue().indexOf(id) !== -1;
+    }
+
+    /**
+     * Pin or unpin the given item
+     *
+     * @param {string} id
+     * @param {boolean} pinned
+     */
+    setItemPinned(id: string, pinned: boolean): void
+    {
+        if ( this.isItemPinned(id) === pinned )
+        {
+            return;
+        }
+
+        const ids = this.onPinnedItemsChanged.getValue().filter((itemId) => itemId !== id);
+
+        this.onPinnedItemsChanged.next(pinned ? [...ids, id] : ids);
+        this.fuseStorage.set(PINNED_ITEMS_STORAGE_KEY, this.onPinnedItemsChanged.getValue()).subscribe();
+
+        this._onNavigationChanged();
+    }
+
+    /**
+     * Check if the current user can access the given item. The user
+     * needs at least one of the roles and all the permissions of the item.
+     *
+     * @param {FuseNavigationItem} item
+     * @returns {boolean}
+     */
+    isItemAccessible(item: FuseNavigationItem): boolean
+    {
+        if ( item.roles && item.roles.length && !item.roles.some((role) => this._permissions.roles.indexOf(role) !== -1) )
+        {
+            return false;
+        }
+
+        if ( item.permissions && !item.permissions.every((permission) => this._permissions.permissions.indexOf(permission) !== -1) )
+        {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Get the flattened navigation, the accessible 'item' type
+     * entries of the navigation index in their navigation order
+     *
+     * @returns {FuseNavigationIndexEntry[]}
+     */
+    getFlatNavigation(): FuseNavigationIndexEntry[]
+    {
+        return this._getIndex().entries.filter((entry) => entry.type === 'item');
+    }
+
+    /**
+     * Get the navigation index entries of every accessible
+     * item, group and collapse in their navigation order
+     *
+     * @returns {FuseNavigationIndexEntry[]}
+     */
+    getNavigationIndex(): FuseNavigationIndexEntry[]
+    {
+        return this._getIndex().entries;
+    }
+
+    /**
+     * Get the navigation index entry of the item with the given id
+     *
+     * @param {string} id
+     * @returns {FuseNavigationIndexEntry}
+     */
+    getIndexEntry(id: string): FuseNavigationIndexEntry
+    {
+        return this._getIndex().byId[id] || null;
+    }
+
+    /**
+     * Get the navigation index entry of the item with the given url. If there is
+     * no exact match, the item with the longest url that contains the given url
+     * is returned, e.g. '/orders' for '/orders/1234'.
+     *
+     * @param {string} url
+     * @returns {FuseNavigationIndexEntry}
+     */
+    getIndexEntryByUrl(url: string): FuseNavigationIndexEntry
+    {
+        // Leave out the query params and the fragment
+        const path = url.split(/[?#]/)[0];
+        let match: FuseNavigationIndexEntry = null;
+
+        for ( const entry of this._getIndex().entries )
+        {
+            if ( !entry.url || entry.externalUrl )
+            {
+                continue;
+            }
+
+            if ( entry.url === path )
+            {
+                return entry;
+            }
+
+            if ( path.startsWith(entry.url + '/') && (!match || entry.url.length > match.url.length) )
+            {
+                match = entry;
+            }
+        }
 
-    constructor()
+        return match;
+    }
+
+    /**
+     * Get the translated title of the given item
+     *
+     * @param {FuseNavigationItem} item
+     * @returns {string}
+     */
+    getItemTitle(item: FuseNavigationItem): string
     {
+        if ( !item.translate )
+        {
+            return item.title;
+        }
+
+        const title = this.translateService.instant(item.translate);
+
+        // Fallback to the title if there is no translation
+        return title !== item.translate ? title : item.title;
     }
 
     /**
-     * Get flattened navigation array
-     * @param navigation
-     * @returns {any[]}
+     * Filter the navigation by the translated titles. The ancestors of the
+     * matching items are kept, the collapse items containing the matches get
+     * expanded and the previous expand state is restored once it's cleared.
+     *
+     * @param {string} query
      */
-    getFlatNavigation(navigation)
+    setFilter(query: string): void
     {
-        for ( const navItem of navigation )
+        const previousQuery = this.onFilterChanged.getValue();
+
+        query = query ? query.trim() : '';
+
+        if ( query === previousQuery )
+        {
+            return;
+        }
+
+        // Remember the expand state before the filtering starts
+        if ( !previousQuery )
         {
-            if ( navItem.type === 'item' )
+            this._expandedItemsBeforeFilter = this.onExpandedItemsChanged.getValue();
+        }
+
+        this.onFilterChanged.next(query);
+
+        if ( !query )
+        {
+            this._setExpandedItems(this._expandedItemsBeforeFilter);
+
+            return;
+        }
+
+        // Expand the collapse items with matches without saving them
+        const expandedIds = [];
+
+        this._filterByTitle(this._visibleNavigation, query.toLowerCase(), expandedIds);
+        this._setExpandedItems(expandedIds, {persist: false});
+    }
+
+    /**
+     * Filter the given navigation with the given query
+     *
+     * @param {FuseNavigationItem[]} navigation
+     * @param {string} query
+     * @returns {FuseNavigationItem[]}
+     */
+    filterNavigation(navigation: FuseNavigationItem[], query: string): FuseNavigationItem[]
+    {
+        if ( !query )
+        {
+            return navigation;
+        }
+
+        return this._filterByTitle(navigation, query.toLowerCase(), []);
+    }
+
+    /**
+     * Set and save the expanded items
+     *
+     * @param {string[]} ids
+     * @param {{persist?: boolean}} options
+     * @private
+     */
+    private _setExpandedItems(ids: string[], options: { persist?: boolean } = {persist: true}): void
+    {
+        this.onExpandedItemsChanged.next(ids);
+
+        if ( options.persist )
+        {
+            this.fuseStorage.set(EXPANDED_ITEMS_STORAGE_KEY, ids).subscribe();
+        }
+    }
+
+    /**
+     * Keep the items that match the given query along with their
+     * ancestors, and collect the collapse items containing matches
+     *
+     * @param {FuseNavigationItem[]} items
+     * @param {string} query
+     * @param {string[]} expandedIds
+     * @returns {FuseNavigationItem[]}
+     * @private
+     */
+    private _filterByTitle(items: FuseNavigationItem[], query: string, expandedIds: string[]): FuseNavigationItem[]
+    {
+        const matchingItems = [];
+
+        for ( const item of items )
+        {
+            // Keep the matching items as they are, with all their children
+            if ( this.getItemTitle(item).toLowerCase().includes(query) )
             {
-                this.flatNavigation.push({
-                    title: navItem.title,
-                    type : navItem.type,
-                    icon : navItem.icon || false,
-                    url  : navItem.url
-                });
+                matchingItems.push(item);
+
+                continue;
+            }
 
+            if ( !item.children )
+            {
                 continue;
             }
 
-            if ( navItem.type === 'collapse' || navItem.type === 'group' )
+            const children = this._filterByTitle(item.children, query, expandedIds);
+
+            if ( children.length )
             {
-                if ( navItem.children )
+                matchingItems.push({...item, children});
+
+                if ( item.type === 'collapse' )
                 {
-                    this.getFlatNavigation(navItem.children);
+                    expandedIds.push(item.id);
                 }
             }
         }
 
-        return this.flatNavigation;
+        return matchingItems;
+    }
+
+    /**
+     * Return the given items with the item with the given id replaced, or
+     * removed if the replacement is null. Only the arrays and the items on
+     * the path to the replaced item are copied, the rest stay the same.
+     *
+     * @param {string} id
+     * @param {FuseNavigationItem[]} items
+     * @param {(item: FuseNavigationItem) => FuseNavigationItem} replace
+     * @returns {FuseNavigationItem[]}
+     * @private
+     */
+    private _replaceItem(id: string, items: FuseNavigationItem[], replace: (item: FuseNavigationItem) => FuseNavigationItem): FuseNavigationItem[]
+    {
+        let replaced = false;
+        const newItems = [];
+
+        for ( const item of items )
+        {
+            let newItem = item;
+
+            if ( item.id === id )
+            {
+                newItem = replace(item);
+            }
+            else if ( item.children )
+            {
+                const children = this._replaceItem(id, item.children, replace);
+
+                if ( children !== item.children )
+                {
+                    newItem = {
+                        ...item,
+                        children
+                    };
+                }
+            }
+
+            replaced = replaced || newItem !== item;
+
+            if ( newItem )
+            {
+                newItems.push(newItem);
+            }
+        }
+
+        return replaced ? newItems : items;
+    }
+
+    /**
+     * Return the given items without the inaccessible ones. The groups
+     * and the collapses that are left without any children are removed too.
+     *
+     * @param {FuseNavigationItem[]} items
+     * @returns {FuseNavigationItem[]}
+     * @private
+     */
+    private _filterNavigation(items: FuseNavigationItem[]): FuseNavigationItem[]
+    {
+        const visibleItems = [];
+
+        for ( const item of items )
+        {
+            if ( !this.isItemAccessible(item) )
+            {
+                continue;
+            }
+
+            if ( !item.children )
+            {
+                visibleItems.push(item);
+
+                continue;
+            }
+
+            const children = this._filterNavigation(item.children);
+
+            if ( item.children.length && !children.length )
+            {
+                continue;
+            }
+
+            // Keep the original item if none of its children are
+            // filtered out, otherwise use a copy with the visible ones
+            if ( children.length === item.children.length && children.every((child, index) => child === item.children[index]) )
+            {
+                visibleItems.push(item);
+            }
+            else
+            {
+                visibleItems.push({...item, children});
+            }
+        }
+
+        return visibleItems;
+    }
+
+    /**
+     * Return the given top level items in the user's order,
+     * the items without an order are appended in their order
+     *
+     * @param {FuseNavigationItem[]} items
+     * @returns {FuseNavigationItem[]}
+     * @private
+     */
+    private _sortNavigation(items: FuseNavigationItem[]): FuseNavigationItem[]
+    {
+        if ( !this._order.length )
+        {
+            return items;
+        }
+
+        const orderedItems = this._order
+                                 .map((id) => items.find((item) => item.id === id))
+                                 .filter((item) => !!item);
+
+        return [...orderedItems, ...items.filter((item) => orderedItems.indexOf(item) === -1)];
+    }
+
+    /**
+     * Get the group of the pinned items that are accessible,
+     * returns null if there isn't any
+     *
+     * @returns {FuseNavigationItem}
+     * @private
+     */
+    private _getPinnedGroup(): FuseNavigationItem
+    {
+        const children = this.onPinnedItemsChanged.getValue()
+                             .map((id) => this.getNavigationItem(id, this._visibleNavigation))
+                             .filter((item) => !!item);
+
+        if ( !children.length )
+        {
+            return null;
+        }
+
+        return {
+            id       : PINNED_GROUP_ID,
+            title    : 'Pinned',
+            translate: 'NAV.PINNED',
+            type     : 'group',
+            children : children
+        };
+    }
+
+    /**
+     * Get the navigation index, build it if it's invalidated
+     *
+     * @returns {{entries: FuseNavigationIndexEntry[], byId: {[p: string]: FuseNavigationIndexEntry}}}
+     * @private
+     */
+    private _getIndex(): { entries: FuseNavigationIndexEntry[], byId: { [id: string]: FuseNavigationIndexEntry } }
+    {
+        if ( !this._index )
+        {
+            this._index = {
+                entries: [],
+                byId   : {}
+            };
+
+            this._indexItems(this._visibleNavigation, []);
+        }
+
+        return this._index;
+    }
+
+    /**
+     * Add the given items and their children to the index
+     *
+     * @param {FuseNavigationItem[]} items
+     * @param {FuseNavigationIndexEntry[]} parents
+     * @private
+     */
+    private _indexItems(items: FuseNavigationItem[], parents: FuseNavigationIndexEntry[]): void
+    {
+        for ( const item of items )
+        {
+            const entry: FuseNavigationIndexEntry = {
+                id          : item.id,
+                title       : this.getItemTitle(item),
+                translate   : item.translate,
+                type        : item.type,
+                icon        : item.icon,
+                url         : item.url,
+                externalUrl : item.externalUrl,
+                target      : item.target,
+                openInNewTab: item.openInNewTab,
+                queryParams : item.queryParams,
+                fragment    : item.fragment,
+                badge       : item.badge,
+                item        : item,
+                parents     : parents
+            };
+
+            this._index.entries.push(entry);
+
+            // The first item wins if the ids are not unique
+            if ( !this._index.byId[item.id] )
+            {
+                this._index.byId[item.id] = entry;
+            }
+
+            if ( item.children )
+            {
+                this._indexItems(item.children, [...parents, entry]);
+            }
+        }
+    }
+
+    /**
+     * Filter and sort the navigation, add the pinned
+     * items and trigger the navigation changed event
+     *
+     * @private
+     */
+    private _onNavigationChanged(): void
+    {
+        this._visibleNavigation = this._sortNavigation(this._filterNavigation(this._navigation));
+        this._index = null;
+
+        const pinnedGroup = this._getPinnedGroup();
+
+        this.onNavigationChanged.next(pinnedGroup ? [pinnedGroup, ...this._visibleNavigation] : this._visibleNavigation);
     }
 }
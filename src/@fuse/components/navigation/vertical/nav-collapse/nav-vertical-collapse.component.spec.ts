@@ -0,0 +1,104 @@
+import { TestBed } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { RouterTestingModule } from '@angular/router/testing';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Subject } from 'rxjs/Subject';
+import { of } from 'rxjs/observable/of';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseNavVerticalCollapseComponent } from './nav-vertical-collapse.component';
+
+describe('FuseNavVerticalCollapseComponent', () => {
+    let component: FuseNavVerticalCollapseComponent;
+
+    const users = {id: 'users', title: 'Users', type: 'item', url: '/users'};
+    const profile = {id: 'profile', title: 'Profile', type: 'item', url: '/user/profile', exactMatch: true};
+    const orders = {id: 'orders', title: 'Orders', type: 'item', url: '/e-commerce/orders'};
+    const products = {id: 'products', title: 'Products', type: 'item', url: '/e-commerce/products'};
+    const catalog = {id: 'catalog', title: 'Catalog', type: 'collapse', children: [products]};
+    const sales = {id: 'sales', title: 'Sales', type: 'collapse', children: [orders]};
+    const eCommerce = {id: 'e-commerce', title: 'E-Commerce', type: 'collapse', children: [catalog, sales]};
+    const admin = {id: 'admin', title: 'Admin', type: 'collapse', children: [users, profile, eCommerce]};
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            imports: [RouterTestingModule]
+        });
+
+        const navigationService: Partial<FuseNavigationService> = {
+            onItemCollapsed      : new Subject(),
+            onItemCollapseToggled: new Subject(),
+            onFilterChanged      : new BehaviorSubject('')
+        };
+
+        const fuseConfig: Partial<FuseConfigService> = {
+            select: <T>() => of<any>('accordion')
+        };
+
+        component = new FuseNavVerticalCollapseComponent(
+            navigationService as FuseNavigationService,
+            TestBed.get(Router),
+            fuseConfig as FuseConfigService
+        );
+    });
+
+    describe('isUrlInChildren', () => {
+
+        it('should match the exact url of a child', () => {
+            expect(component.isUrlInChildren(admin, '/users')).toBe(true);
+        });
+
+        it('should match the descendant urls of a child', () => {
+            expect(component.isUrlInChildren(admin, '/users/42/edit')).toBe(true);
+        });
+
+        it('should not match the urls that only share a prefix string', () => {
+            const user = {id: 'user', title: 'User', type: 'item', url: '/user'};
+
+            expect(component.isUrlInChildren({children: [user]}, '/users')).toBe(false);
+        });
+
+        it('should only match the exact url of the exact match children', () => {
+            expect(component.isUrlInChildren(admin, '/user/profile')).toBe(true);
+            expect(component.isUrlInChildren(admin, '/user/profile/settings')).toBe(false);
+        });
+
+        it('should ignore the query params and the fragment', () => {
+            expect(component.isUrlInChildren(admin, '/user/profile?tab=about#photos')).toBe(true);
+        });
+
+        it('should match the children of any depth', () => {
+            expect(component.isUrlInChildren(admin, '/e-commerce/products')).toBe(true);
+            expect(component.isUrlInChildren(admin, '/e-commerce/orders/1234')).toBe(true);
+            expect(component.isUrlInChildren(eCommerce, '/e-commerce/orders')).toBe(true);
+        });
+
+        it('should not match the urls of the other collapses', () => {
+            expect(component.isUrlInChildren(catalog, '/e-commerce/orders')).toBe(false);
+            expect(component.isUrlInChildren(sales, '/e-commerce/products')).toBe(false);
+        });
+
+        it('should not match when there are no children', () => {
+            expect(component.isUrlInChildren(users, '/users')).toBe(false);
+        });
+    });
+
+    describe('isChildrenOf', () => {
+
+        it('should find the direct children', () => {
+            expect(component.isChildrenOf(admin, eCommerce)).toBe(true);
+        });
+
+        it('should find the children of any depth', () => {
+            expect(component.isChildrenOf(admin, catalog)).toBe(true);
+            expect(component.isChildrenOf(admin, sales)).toBe(true);
+            expect(component.isChildrenOf(admin, orders)).toBe(true);
+        });
+
+        it('should not find the items of the other collapses', () => {
+            expect(component.isChildrenOf(catalog, sales)).toBe(false);
+            expect(component.isChildrenOf(sales, admin)).toBe(false);
+        });
+    });
+});
@@ -1,7 +1,9 @@
-import { Component, HostBinding, Input, OnInit } from '@angular/core';
+import { Component, HostBinding, Input, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs/Subscription';
 import { FuseNavigationService } from '../../navigation.service';
-import { NavigationEnd, Router } from '@angular/router';
+import { NavigationEnd, PRIMARY_OUTLET, Router, UrlTree } from '@angular/router';
 import { fuseAnimations } from '../../../../animations/index';
+import { FuseConfigService } from '../../../../services/config.service';
 
 @Component({
     selector   : 'fuse-nav-vertical-collapse',
@@ -9,19 +11,49 @@ import { fuseAnimations } from '../../../../animations/index';
     styleUrls  : ['./nav-vertical-collapse.component.scss'],
     animations : fuseAnimations
 })
-export class FuseNavVerticalCollapseComponent implements OnInit
+export class FuseNavVerticalCollapseComponent implements OnInit, OnDestroy
 {
     @Input() item: any;
     @HostBinding('class') classes = 'nav-collapse nav-item';
+    @HostBinding('attr.role') role = 'none';
     @HostBinding('class.open') public isOpen = false;
+    public isLoading = false;
+    public loadingError: any = null;
+    public filterQuery: string;
+
+    // Private
+    private _collapseMode: string;
+    private _childrenSubscription: Subscription;
+    private _subscriptions: Subscription[] = [];
 
     constructor(
         private navigationService: FuseNavigationService,
-        private router: Router
+        private router: Router,
+        private fuseConfig: FuseConfigService
     )
     {
+        // Listen for the collapse mode changes
+        this._subscriptions.push(
+            this.fuseConfig.select('layout.navigationCollapse')
+                .subscribe(
+                    (collapseMode) => {
+                        this._collapseMode = collapseMode;
+                    }
+                )
+        );
+
+        // Listen for the filter changes to highlight the matches
+        this._subscriptions.push(
+            this.navigationService.onFilterChanged
+                .subscribe(
+                    (query) => {
+                        this.filterQuery = query;
+                    }
+                )
+        );
+
         // Listen for route changes
-        router.events.subscribe(
+        this._subscriptions.push(router.events.subscribe(
             (event) => {
                 if ( event instanceof NavigationEnd )
                 {
@@ -31,18 +63,24 @@ export class FuseNavVerticalCollapseComponent implements OnInit
                     {
                         this.expand();
                     }
-                    else
+                    else if ( this._collapseMode !== 'independent' )
                     {
                         this.collapse();
                     }
                 }
             }
-        );
+        ));
 
         // Listen for collapsing of any navigation item
-        this.navigationService.onItemCollapsed
+        this._subscriptions.push(this.navigationService.onItemCollapsed
             .subscribe(
                 (clickedItem) => {
+                    // The other items stay as they are in the independent mode
+                    if ( this._collapseMode === 'independent' )
+                    {
+                        return;
+                    }
+
                     if ( clickedItem && clickedItem.children )
                     {
                         // Check if the clicked item is one
@@ -66,14 +104,15 @@ export class FuseNavVerticalCollapseComponent implements OnInit
                         }
                     }
                 }
-            );
+            ));
     }
 
     ngOnInit()
     {
         // Check if the url can be found in
         // one of the children of this item
-        if ( this.isUrlInChildren(this.item, this.router.url) )
+        // or if the user left it expanded
+        if ( this.isUrlInChildren(this.item, this.router.url) || this.navigationService.isItemExpanded(this.item.id) )
         {
             this.expand();
         }
@@ -81,6 +120,36 @@ export class FuseNavVerticalCollapseComponent implements OnInit
         {
             this.collapse();
         }
+
+        // Listen for the expanded items changes such as
+        // the restored ones or the expand/collapse all
+        this._subscriptions.push(
+            this.navigationService.onExpandedItemsChanged
+                .subscribe(
+                    (ids) => {
+                        if ( ids.indexOf(this.item.id) !== -1 )
+                        {
+                            this.expand();
+                        }
+                        else
+                        {
+                            this.collapse();
+                        }
+                    }
+                )
+        );
+    }
+
+    ngOnDestroy()
+    {
+        this._subscriptions.forEach((subscription) => {
+            subscription.unsubscribe();
+        });
+
+        if ( this._childrenSubscription )
+        {
+            this._childrenSubscription.unsubscribe();
+        }
     }
 
     /**
@@ -93,6 +162,12 @@ export class FuseNavVerticalCollapseComponent implements OnInit
         ev.preventDefault();
 
         this.isOpen = !this.isOpen;
+        this.navigationService.setItemExpanded(this.item.id, this.isOpen);
+
+        if ( this.isOpen )
+        {
+            this.loadChildren();
+        }
 
         // Navigation collapse toggled...
         this.navigationService.onItemCollapsed.next(this.item);
@@ -110,7 +185,10 @@ export class FuseNavVerticalCollapseComponent implements OnInit
         }
 
         this.isOpen = true;
+        this.navigationService.setItemExpanded(this.item.id, true);
         this.navigationService.onItemCollapseToggled.next();
+
+        this.loadChildren();
     }
 
     /**
@@ -124,18 +202,75 @@ export class FuseNavVerticalCollapseComponent implements OnInit
         }
 
         this.isOpen = false;
+        this.navigationService.setItemExpanded(this.item.id, false);
         this.navigationService.onItemCollapseToggled.next();
     }
 
+    /**
+     * Load the children if the item has a children loader,
+     * the loaded children are cached unless refreshed
+     *
+     * @param {boolean} refresh
+     */
+    loadChildren(refresh = false)
+    {
+        if ( !this.item.childrenLoader || (this.item.children && !refresh) || this.isLoading )
+        {
+            return;
+        }
+
+        this.isLoading = true;
+        this.loadingError = null;
+
+        this._childrenSubscription =
+            this.navigationService.loadChildren(this.item.id, {refresh})
+                .subscribe(
+                    () => {
+                        this.isLoading = false;
+
+                        // Update the scrollbars once the children are rendered
+                        this.navigationService.onItemCollapseToggled.next();
+                    },
+                    (error) => {
+                        this.isLoading = false;
+                        this.loadingError = error;
+
+                        // Update the scrollbars once the error is rendered
+                        this.navigationService.onItemCollapseToggled.next();
+                    }
+                );
+    }
+
+    /**
+     * Load the children again after a failure
+     */
+    retry()
+    {
+        this.loadChildren(true);
+    }
+
+    /**
+     * Refresh the loaded children
+     *
+     * @param ev
+     */
+    refresh(ev)
+    {
+        ev.preventDefault();
+        ev.stopPropagation();
+
+        this.loadChildren(true);
+    }
+
     /**
      * Check if the given parent has the
      * given item in one of its children
      *
      * @param parent
      * @param item
-     * @return {any}
+     * @return {boolean}
      */
-    isChildrenOf(parent, item)
+    isChildrenOf(parent, item): boolean
     {
         if ( !parent.children )
         {
@@ -149,39 +284,56 @@ export class FuseNavVerticalCollapseComponent implements OnInit
 
         for ( const children of parent.children )
         {
-            if ( children.children )
+            if ( children.children && this.isChildrenOf(children, item) )
             {
-                return this.isChildrenOf(children, item);
+                return true;
             }
         }
+
+        return false;
     }
 
     /**
      * Check if the given url can be found
      * in one of the given parent's children
      *
+     * The urls are compared segment by segment like the router does, the
+     * query params and the fragment are ignored. Children with `exactMatch`
+     * only match their own url, the others match their descendant urls too.
+     *
      * @param parent
-     * @param url
-     * @returns {any}
+     * @param {string} url
+     * @returns {boolean}
      */
-    isUrlInChildren(parent, url)
+    isUrlInChildren(parent, url: string): boolean
+    {
+        return this._isPathInChildren(parent, this._getPathSegments(this.router.parseUrl(url)));
+    }
+
+    /**
+     * Check if the given path segments can be
+     * found in one of the given parent's children
+     *
+     * @param parent
+     * @param {string[]} segments
+     * @returns {boolean}
+     * @private
+     */
+    private _isPathInChildren(parent, segments: string[]): boolean
     {
         if ( !parent.children )
         {
             return false;
         }
 
-        for ( let i = 0; i < parent.children.length; i++ )
+        for ( const child of parent.children )
         {
-            if ( parent.children[i].children )
+            if ( child.children && this._isPathInChildren(child, segments) )
             {
-                if ( this.isUrlInChildren(parent.children[i], url) )
-                {
-                    return true;
-                }
+                return true;
             }
 
-            if ( parent.children[i].url === url || url.includes(parent.children[i].url) )
+            if ( child.url && !child.externalUrl && this._isMatchingUrl(child.url, segments, child.exactMatch) )
             {
                 return true;
             }
@@ -190,4 +342,58 @@ export class FuseNavVerticalCollapseComponent implements OnInit
         return false;
     }
 
+    /**
+     * Check if the given item url matches the given path segments
+     *
+     * @param {string} itemUrl
+     * @param {string[]} segments
+     * @param {boolean} exact
+     * @returns {boolean}
+     * @private
+     */
+    private _isMatchingUrl(itemUrl: string, segments: string[], exact: boolean): boolean
+    {
+        const itemSegments = this._getPathSegments(this.router.parseUrl(itemUrl));
+
+        if ( exact ? itemSegments.length !== segments.length : itemSegments.length > segments.length )
+        {
+            return false;
+        }
+
+        return itemSegments.every((segment, index) => segment === segments[index]);
+    }
+
+    /**
+     * Get the paths of the primary segments of the given url tree
+     *
+     * @param {UrlTree} urlTree
+     * @returns {string[]}
+     * @private
+     */
+    private _getPathSegments(urlTree: UrlTree): string[]
+    {
+        const paths = [];
+        let group = urlTree.root.children[PRIMARY_OUTLET];
+
+        while ( group )
+        {
+            paths.push(...group.segments.map((segment) => segment.path));
+            group = group.children[PRIMARY_OUTLET];
+        }
+
+        return paths;
+    }
+
+    /**
+     * Track the items by their id so they won't be
+     * re-rendered when the navigation model changes
+     *
+     * @param index
+     * @param item
+     * @returns {string}
+     */
+    trackById(index, item)
+    {
+        return item.id;
+    }
 }
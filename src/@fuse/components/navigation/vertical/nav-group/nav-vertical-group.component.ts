@@ -1,17 +1,49 @@
-import { Component, HostBinding, Input } from '@angular/core';
+import { Component, HostBinding, Input, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs/Subscription';
+import { FuseNavigationService } from '../../navigation.service';
 
 @Component({
     selector   : 'fuse-nav-vertical-group',
     templateUrl: './nav-vertical-group.component.html',
     styleUrls  : ['./nav-vertical-group.component.scss']
 })
-export class FuseNavVerticalGroupComponent
+export class FuseNavVerticalGroupComponent implements OnDestroy
 {
     @HostBinding('class') classes = 'nav-group nav-item';
+    @HostBinding('attr.role') role = 'none';
     @Input() item: any;
+    filterQuery: string;
+    onFilterChanged: Subscription;
 
-    constructor()
+    constructor(
+        private navigationService: FuseNavigationService
+    )
     {
+        // Listen for the filter changes to highlight the matches
+        this.onFilterChanged =
+            this.navigationService.onFilterChanged
+                .subscribe(
+                    (query) => {
+                        this.filterQuery = query;
+                    }
+                );
     }
 
+    ngOnDestroy()
+    {
+        this.onFilterChanged.unsubscribe();
+    }
+
+    /**
+     * Track the items by their id so they won't be
+     * re-rendered when the navigation model changes
+     *
+     * @param index
+     * @param item
+     * @returns {string}
+     */
+    trackById(index, item)
+    {
+        return item.id;
+    }
 }
@@ -1,16 +1,70 @@
-import { Component, HostBinding, Input } from '@angular/core';
+import { Component, HostBinding, HostListener, Input, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs/Subscription';
+import { FuseNavigationService } from '../../navigation.service';
 
 @Component({
     selector   : 'fuse-nav-vertical-item',
     templateUrl: './nav-vertical-item.component.html',
     styleUrls  : ['./nav-vertical-item.component.scss']
 })
-export class FuseNavVerticalItemComponent
+export class FuseNavVerticalItemComponent implements OnInit, OnDestroy
 {
     @HostBinding('class') classes = 'nav-item';
+    @HostBinding('attr.role') role = 'none';
     @Input() item: any;
+    filterQuery: string;
+    pinned: boolean;
+    onFilterChanged: Subscription;
+    onPinnedItemsChanged: Subscription;
 
-    constructor()
+    constructor(
+        private navigationService: FuseNavigationService
+    )
     {
+        // Listen for the filter changes to highlight the matches
+        this.onFilterChanged =
+            this.navigationService.onFilterChanged
+                .subscribe(
+                    (query) => {
+                        this.filterQuery = query;
+                    }
+                );
+    }
+
+    ngOnInit()
+    {
+        this.onPinnedItemsChanged =
+            this.navigationService.onPinnedItemsChanged
+                .subscribe(
+                    (ids) => {
+                        this.pinned = ids.indexOf(this.item.id) !== -1;
+                    }
+                );
+    }
+
+    ngOnDestroy()
+    {
+        this.onFilterChanged.unsubscribe();
+        this.onPinnedItemsChanged.unsubscribe();
+    }
+
+    /**
+     * Pin or unpin the item with Alt+P
+     *
+     * @param {KeyboardEvent} event
+     */
+    @HostListener('keydown', ['$event'])
+    onKeydown(event: KeyboardEvent)
+    {
+        if ( event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyP' )
+        {
+            event.preventDefault();
+            this.togglePinned();
+        }
+    }
+
+    togglePinned()
+    {
+        this.navigationService.setItemPinned(this.item.id, !this.pinned);
     }
 }
@@ -0,0 +1,17 @@
+export const locale = {
+    lang: 'en',
+    data: {
+        'SEARCH_BAR': {
+            'SAVED_SEARCHES' : 'Saved searches',
+            'RECENT_SEARCHES': 'Recent searches',
+            'CLEAR'          : 'Clear',
+            'SAVE_SEARCH'    : 'Save the search',
+            'UNSAVE_SEARCH'  : 'Unsave the search',
+            'REMOVE_RECENT'  : 'Remove from the recent searches',
+            'NARROW_DOWN'    : 'Narrow the search down with',
+            'OR_FILTERS_LIKE': 'or filters like',
+            'SEARCH_ERROR'   : 'Couldn\'t search the {{provider}}.',
+            'NO_RESULTS'     : 'No results'
+        }
+    }
+};
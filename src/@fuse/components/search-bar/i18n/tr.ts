@@ -0,0 +1,17 @@
+export const locale = {
+    lang: 'tr',
+    data: {
+        'SEARCH_BAR': {
+            'SAVED_SEARCHES' : 'Kayıtlı aramalar',
+            'RECENT_SEARCHES': 'Son aramalar',
+            'CLEAR'          : 'Temizle',
+            'SAVE_SEARCH'    : 'Aramayı kaydet',
+            'UNSAVE_SEARCH'  : 'Aramayı kayıtlardan çıkar',
+            'REMOVE_RECENT'  : 'Son aramalardan kaldır',
+            'NARROW_DOWN'    : 'Aramayı daraltmak için',
+            'OR_FILTERS_LIKE': 'veya şu gibi filtreler kullanın:',
+            'SEARCH_ERROR'   : '{{provider}} aranamadı.',
+            'NO_RESULTS'     : 'Sonuç yok'
+        }
+    }
+};
@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs/Observable';
+import { of } from 'rxjs/observable/of';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseSearchProvider, FuseSearchQuery, FuseSearchResult } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
+
+// Define the maximum number of the results
+const RESULTS_LIMIT = 10;
+
+/**
+ * Searches the pages of the navigation by their translated titles
+ */
+@Injectable()
+export class FuseNavigationSearchProvider implements FuseSearchProvider
+{
+    id = 'navigation';
+    title = 'Pages';
+    icon = 'insert_drive_file';
+
+    /**
+     * Constructor
+     *
+     * @param {FuseNavigationService} fuseNavigationService
+     */
+    constructor(
+        private fuseNavigationService: FuseNavigationService
+    )
+    {
+    }
+
+    /**
+     * Search the pages with the text of the given query,
+     * the pages have nothing to filter by
+     *
+     * @param {FuseSearchQuery} query
+     * @returns {Observable<FuseSearchResult[]>}
+     */
+    search(query: FuseSearchQuery): Observable<FuseSearchResult[]>
+    {
+        if ( !query.text )
+        {
+            return of([]);
+        }
+
+        const results = this.fuseNavigationService.getFlatNavigation()
+                            .filter((entry) => entry.url && !entry.item.hidden)
+                            .map((entry) => ({entry, score: FuseUtils.fuzzyScore(entry.title, query.text)}))
+                            .filter(({score}) => score !== -1)
+                            .sort((a, b) => b.score - a.score)
+                            .slice(0, RESULTS_LIMIT)
+                            .map(({entry}) => ({
+                                title      : entry.title,
+                                subtitle   : entry.parents.map((parent) => parent.title).join(' / '),
+                                icon       : entry.icon,
+                                url        : entry.url,
+                                externalUrl: entry.externalUrl,
+                                target     : entry.target || (entry.openInNewTab ? '_blank' : null),
+                                queryParams: entry.queryParams,
+                                fragment   : entry.fragment
+                            }));
+
+        return of(results);
+    }
+}
@@ -1,34 +1,115 @@
-import { Component, EventEmitter, Output } from '@angular/core';
+import { Component, ElementRef, EventEmitter, OnDestroy, Output, ViewChild } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs/Subject';
 import { Subscription } from 'rxjs/Subscription';
+import { combineLatest } from 'rxjs/observable/combineLatest';
 
 import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseTranslationLoaderService } from '@fuse/services/translation-loader.service';
+import { FuseSearchProvider, FuseSearchResult, FuseSearchResultGroup } from '@fuse/types';
+import { FuseSearchService } from './search.service';
+import { locale as english } from './i18n/en';
+import { locale as turkish } from './i18n/tr';
 
 @Component({
     selector   : 'fuse-search-bar',
     templateUrl: './search-bar.component.html',
     styleUrls  : ['./search-bar.component.scss']
 })
-export class FuseSearchBarComponent
+export class FuseSearchBarComponent implements OnDestroy
 {
     collapsed: boolean;
     toolbarColor: string;
-    @Output() onInput: EventEmitter<any> = new EventEmitter();
+    query: string;
+    groups: FuseSearchResultGroup[];
+    selectedResult: FuseSearchResult;
+    providers: FuseSearchProvider[];
+    savedSearches: string[];
+    recentSearches: string[];
+    selectedSearch: string;
+    @Output() onInput: EventEmitter<string> = new EventEmitter();
+    @ViewChild('searchInput') searchInput: ElementRef;
     onConfigChanged: Subscription;
+    onResultsChanged: Subscription;
+    onProvidersChanged: Subscription;
+    onSearchesChanged: Subscription;
+
+    // Private
+    private _queries: Subject<string>;
 
     constructor(
-        private fuseConfig: FuseConfigService
+        private router: Router,
+        private fuseConfig: FuseConfigService,
+        private fuseSearchService: FuseSearchService,
+        private fuseTranslationLoader: FuseTranslationLoaderService
     )
     {
+        this.fuseTranslationLoader.loadTranslations(english, turkish);
+
         this.collapsed = true;
+        this.query = '';
+        this.groups = [];
+        this.providers = [];
+        this.savedSearches = [];
+        this.recentSearches = [];
+        this._queries = new Subject();
+
         this.onConfigChanged =
-            this.fuseConfig.onConfigChanged
+            this.fuseConfig.select('colorClasses.toolbar')
+                .subscribe(
+                    (toolbarColor) => {
+                        this.toolbarColor = toolbarColor;
+                    }
+                );
+
+        this.onResultsChanged =
+            this.fuseSearchService.search(this._queries)
                 .subscribe(
-                    (newSettings) => {
-                        this.toolbarColor = newSettings.colorClasses.toolbar;
+                    (groups) => {
+                        this.groups = groups;
+
+                        // Keep the selection if the result is still there
+                        const results = this._getResults();
+
+                        if ( results.indexOf(this.selectedResult) === -1 )
+                        {
+                            this.selectedResult = results[0] || null;
+                        }
+                    }
+                );
+
+        this.onProvidersChanged =
+            this.fuseSearchService.onProvidersChanged
+                .subscribe(
+                    (providers) => {
+                        this.providers = providers;
+                    }
+                );
+
+        // The saved searches aren't repeated in the recent ones
+        this.onSearchesChanged =
+            combineLatest(this.fuseSearchService.onSavedSearchesChanged, this.fuseSearchService.onRecentSearchesChanged)
+                .subscribe(
+                    ([savedSearches, recentSearches]) => {
+                        this.savedSearches = savedSearches;
+                        this.recentSearches = recentSearches.filter((query) => savedSearches.indexOf(query) === -1);
+
+                        if ( this._getSearches().indexOf(this.selectedSearch) === -1 )
+                        {
+                            this.selectedSearch = null;
+                        }
                     }
                 );
     }
 
+    ngOnDestroy()
+    {
+        this.onConfigChanged.unsubscribe();
+        this.onResultsChanged.unsubscribe();
+        this.onProvidersChanged.unsubscribe();
+        this.onSearchesChanged.unsubscribe();
+    }
+
     collapse()
     {
         this.collapsed = true;
@@ -37,13 +118,301 @@ export class FuseSearchBarComponent
     expand()
     {
         this.collapsed = false;
+
+        setTimeout(() => {
+            this.searchInput.nativeElement.focus();
+        });
+    }
+
+    search(event: Event)
+    {
+        this.setQuery((event.target as HTMLInputElement).value);
+    }
+
+    /**
+     * Search the given query
+     *
+     * @param {string} query
+     */
+    setQuery(query: string)
+    {
+        this.query = query;
+
+        // The selection is picked again from the new results,
+        // so Enter doesn't open one of the previous results
+        this.selectedResult = null;
+        this._queries.next(query);
+        this.onInput.emit(query);
+    }
+
+    /**
+     * Search the given recent or saved query and
+     * keep the focus in the input for refining it
+     *
+     * @param {string} query
+     */
+    applySearch(query: string)
+    {
+        this.setQuery(query);
+        this.searchInput.nativeElement.focus();
+    }
+
+    /**
+     * Narrow the current query down to the given provider
+     *
+     * @param {FuseSearchProvider} provider
+     */
+    applyScope(provider: FuseSearchProvider)
+    {
+        this.applySearch('in:' + provider.id + ' ' + this.query.trim());
+    }
+
+    /**
+     * Check if the recent and the saved searches
+     * are shown instead of the results
+     *
+     * @returns {boolean}
+     */
+    isShowingSearches(): boolean
+    {
+        return !this.query.trim();
+    }
+
+    /**
+     * Get the list shown under the input, either
+     * 'searches' or 'results', or null if none is
+     *
+     * @returns {string}
+     */
+    getOpenList(): string
+    {
+        if ( this.collapsed )
+        {
+            return null;
+        }
+
+        if ( this.isShowingSearches() )
+        {
+            return this.savedSearches.length || this.recentSearches.length || this.providers.length ? 'searches' : null;
+        }
+
+        return this.groups.length ? 'results' : null;
+    }
+
+    /**
+     * Get the id of the selected option of the open list
+     *
+     * @returns {string}
+     */
+    getActiveDescendant(): string
+    {
+        const openList = this.getOpenList();
+
+        if ( openList === 'searches' )
+        {
+            const index = this._getSearches().indexOf(this.selectedSearch);
+
+            return index !== -1 ? 'fuse-search-bar-search-' + index : null;
+        }
+
+        if ( openList === 'results' )
+        {
+            for ( let groupIndex = 0; groupIndex < this.groups.length; groupIndex++ )
+            {
+                const index = this.groups[groupIndex].results.indexOf(this.selectedResult);
+
+                if ( index !== -1 )
+                {
+                    return 'fuse-search-bar-result-' + groupIndex + '-' + index;
+                }
+            }
+        }
+
+        return null;
     }
 
-    search(event)
+    /**
+     * Check if the given query is saved
+     *
+     * @param {string} query
+     * @returns {boolean}
+     */
+    isSearchSaved(query: string): boolean
     {
-        const value = event.target.value;
+        return this.fuseSearchService.isSearchSaved(query);
+    }
+
+    /**
+     * Save or unsave the given query
+     *
+     * @param {string} query
+     * @param {boolean} saved
+     * @param {Event} event
+     */
+    setSearchSaved(query: string, saved: boolean, event?: Event)
+    {
+        if ( event )
+        {
+            // Don't apply the query of the clicked row
+            event.stopPropagation();
+        }
 
-        this.onInput.emit(value);
+        this.fuseSearchService.setSearchSaved(query, saved);
     }
 
+    /**
+     * Remove the given query from the recent searches
+     *
+     * @param {string} query
+     * @param {Event} event
+     */
+    removeRecentSearch(query: string, event: Event)
+    {
+        // Don't apply the query of the clicked row
+        event.stopPropagation();
+
+        this.fuseSearchService.removeRecentSearch(query);
+    }
+
+    /**
+     * Remove all the recent searches
+     */
+    clearRecentSearches()
+    {
+        this.fuseSearchService.clearRecentSearches();
+    }
+
+    /**
+     * Select the results, or the searches if the query is empty,
+     * with the arrow keys, open them with Enter and collapse
+     * with Escape
+     *
+     * @param {KeyboardEvent} event
+     */
+    onKeydown(event: KeyboardEvent)
+    {
+        switch ( event.key )
+        {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                event.preventDefault();
+                this._moveSelection(event.key === 'ArrowDown' ? 1 : -1);
+                break;
+
+            case 'Enter':
+                if ( this.isShowingSearches() && this.selectedSearch )
+                {
+                    event.preventDefault();
+                    this.applySearch(this.selectedSearch);
+                }
+                else if ( !this.isShowingSearches() && this.selectedResult )
+                {
+                    event.preventDefault();
+                    this.open(this.selectedResult);
+                }
+                break;
+
+            case 'Escape':
+                event.preventDefault();
+                this.collapse();
+                break;
+        }
+    }
+
+    /**
+     * Open the given result, either run its action or go to its url
+     *
+     * @param {FuseSearchResult} result
+     */
+    open(result: FuseSearchResult)
+    {
+        this.fuseSearchService.addRecentSearch(this.query);
+        this.collapse();
+
+        if ( result.action )
+        {
+            result.action();
+
+            return;
+        }
+
+        if ( result.externalUrl )
+        {
+            window.open(result.url, result.target || '_self');
+
+            return;
+        }
+
+        this.router.navigate([result.url], {
+            queryParams: result.queryParams,
+            fragment   : result.fragment
+        });
+    }
+
+    /**
+     * Get the results of all the groups in their order
+     *
+     * @returns {FuseSearchResult[]}
+     * @private
+     */
+    private _getResults(): FuseSearchResult[]
+    {
+        return this.groups.reduce((results, group) => [...results, ...group.results], []);
+    }
+
+    /**
+     * Get the saved and the recent searches in their order
+     *
+     * @returns {string[]}
+     * @private
+     */
+    private _getSearches(): string[]
+    {
+        return [...this.savedSearches, ...this.recentSearches];
+    }
+
+    /**
+     * Move the selection by the given step, wrap around the ends
+     *
+     * @param {number} step
+     * @private
+     */
+    private _moveSelection(step: number): void
+    {
+        if ( this.isShowingSearches() )
+        {
+            this.selectedSearch = this._getSibling(this._getSearches(), this.selectedSearch, step);
+
+            return;
+        }
+
+        this.selectedResult = this._getSibling(this._getResults(), this.selectedResult, step);
+    }
+
+    /**
+     * Get the item next to the given one by the given step,
+     * the first or the last one if the item isn't in the list
+     *
+     * @param {any[]} items
+     * @param item
+     * @param {number} step
+     * @returns {any}
+     * @private
+     */
+    private _getSibling(items: any[], item: any, step: number): any
+    {
+        if ( !items.length )
+        {
+            return null;
+        }
+
+        const index = items.indexOf(item);
+
+        if ( index === -1 )
+        {
+            return step > 0 ? items[0] : items[items.length - 1];
+        }
+
+        return items[(index + step + items.length) % items.length];
+    }
 }
@@ -2,7 +2,10 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 
-import { MatButtonModule, MatIconModule } from '@angular/material';
+import { FlexLayoutModule } from '@angular/flex-layout';
+import { MatButtonModule, MatIconModule, MatProgressSpinnerModule, MatTooltipModule } from '@angular/material';
+
+import { TranslateModule } from '@ngx-translate/core';
 
 import { FuseSearchBarComponent } from './search-bar.component';
 
@@ -14,8 +17,14 @@ import { FuseSearchBarComponent } from './search-bar.component';
         CommonModule,
         RouterModule,
 
+        FlexLayoutModule,
+
         MatButtonModule,
-        MatIconModule
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatTooltipModule,
+
+        TranslateModule.forChild()
     ],
     exports     : [
         FuseSearchBarComponent
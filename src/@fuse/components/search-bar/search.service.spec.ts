@@ -0,0 +1,133 @@
+import { FuseMemoryStorage } from '@fuse/testing/memory-storage';
+import { FuseSearchService } from './search.service';
+
+describe('FuseSearchService', () => {
+    let fuseStorage: FuseMemoryStorage;
+    let service: FuseSearchService;
+
+    beforeEach(() => {
+        fuseStorage = new FuseMemoryStorage();
+        service = new FuseSearchService(fuseStorage);
+    });
+
+    describe('parseQuery', () => {
+
+        it('should keep the raw query', () => {
+            expect(service.parseQuery('in:orders acme').raw).toBe('in:orders acme');
+        });
+
+        it('should parse an empty query', () => {
+            expect(service.parseQuery(null)).toEqual({raw: '', text: '', scopes: [], filters: {}});
+        });
+
+        it('should join the terms into the text', () => {
+            expect(service.parseQuery('  acme   corp ').text).toBe('acme corp');
+        });
+
+        it('should keep the quoted terms together', () => {
+            expect(service.parseQuery('"acme  corp" ltd').text).toBe('acme  corp ltd');
+        });
+
+        it('should parse the scopes', () => {
+            const query = service.parseQuery('in:Orders acme in:invoices');
+
+            expect(query.scopes).toEqual(['orders', 'invoices']);
+            expect(query.text).toBe('acme');
+        });
+
+        it('should split the scopes on the commas', () => {
+            expect(service.parseQuery('in:orders,,invoices').scopes).toEqual(['orders', 'invoices']);
+        });
+
+        it('should parse the filters with lowercased keys', () => {
+            const query = service.parseQuery('Status:open acme');
+
+            expect(query.filters).toEqual({status: 'open'});
+            expect(query.text).toBe('acme');
+        });
+
+        it('should parse the quoted filter values', () => {
+            expect(service.parseQuery('customer:"Acme Corp"').filters).toEqual({customer: 'Acme Corp'});
+        });
+
+        it('should keep the last value of a repeated filter', () => {
+            expect(service.parseQuery('status:open status:closed').filters).toEqual({status: 'closed'});
+        });
+
+        it('should only parse the keys that start with a letter as filters', () => {
+            const query = service.parseQuery('10:30');
+
+            expect(query.filters).toEqual({});
+            expect(query.text).toBe('10:30');
+        });
+    });
+
+    describe('recent searches', () => {
+
+        it('should restore the saved recent searches', () => {
+            fuseStorage.values['search-recent'] = ['acme', 42, '', 'in:orders'];
+
+            service = new FuseSearchService(fuseStorage);
+
+            expect(service.onRecentSearchesChanged.getValue()).toEqual(['acme', 'in:orders']);
+        });
+
+        it('should add the normalized query on top without repeating it', () => {
+            service.addRecentSearch('acme');
+            service.addRecentSearch('in:orders');
+            service.addRecentSearch('  acme ');
+
+            expect(fuseStorage.values['search-recent']).toEqual(['acme', 'in:orders']);
+        });
+
+        it('should not add the empty queries', () => {
+            service.addRecentSearch('   ');
+
+            expect(service.onRecentSearchesChanged.getValue()).toEqual([]);
+        });
+
+        it('should keep the last ten searches', () => {
+            for ( let i = 0; i < 12; i++ )
+            {
+                service.addRecentSearch('query ' + i);
+            }
+
+            expect(fuseStorage.values['search-recent'].length).toBe(10);
+            expect(fuseStorage.values['search-recent'][0]).toBe('query 11');
+        });
+
+        it('should remove and clear the recent searches', () => {
+            service.addRecentSearch('acme');
+            service.addRecentSearch('in:orders');
+
+            service.removeRecentSearch('acme');
+            expect(fuseStorage.values['search-recent']).toEqual(['in:orders']);
+
+            service.clearRecentSearches();
+            expect(fuseStorage.values['search-recent']).toEqual([]);
+        });
+    });
+
+    describe('saved searches', () => {
+
+        it('should save and unsave the normalized query', () => {
+            service.setSearchSaved('status:open   acme', true);
+
+            expect(service.isSearchSaved('status:open acme')).toBe(true);
+            expect(fuseStorage.values['search-saved']).toEqual(['status:open acme']);
+
+            service.setSearchSaved('status:open acme', false);
+
+            expect(fuseStorage.values['search-saved']).toEqual([]);
+        });
+
+        it('should append the new saved searches to the stored ones', () => {
+            fuseStorage.values['search-saved'] = ['acme'];
+
+            service = new FuseSearchService(fuseStorage);
+            service.setSearchSaved('in:orders', true);
+
+            expect(service.onSavedSearchesChanged.getValue()).toEqual(['acme', 'in:orders']);
+        });
+    });
+});
@@ -0,0 +1,384 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
+import { combineLatest } from 'rxjs/observable/combineLatest';
+import { defer } from 'rxjs/observable/defer';
+import { of } from 'rxjs/observable/of';
+import 'rxjs/add/operator/catch';
+import 'rxjs/add/operator/debounceTime';
+import 'rxjs/add/operator/distinctUntilChanged';
+import 'rxjs/add/operator/map';
+import 'rxjs/add/operator/startWith';
+import 'rxjs/add/operator/switchMap';
+import 'rxjs/add/operator/take';
+
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FuseSearchProvider, FuseSearchQuery, FuseSearchResultGroup } from '@fuse/types';
+
+// Define how long to wait after the last keystroke before searching
+const SEARCH_DEBOUNCE_TIME = 300;
+
+// Define the minimum length of the queries
+const MIN_QUERY_LENGTH = 2;
+
+// Define the storage keys of the recent and the saved searches
+const RECENT_SEARCHES_STORAGE_KEY = 'search-recent';
+const SAVED_SEARCHES_STORAGE_KEY = 'search-saved';
+
+// Define the maximum number of the recent searches
+const RECENT_SEARCHES_LIMIT = 10;
+
+// Matches the `key:value`, `key:"quoted value"`, `"quoted term"` and `term` parts of the queries
+const QUERY_PART_PATTERN = /([a-zA-Z][\w-]*):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/;
+
+/**
+ * Global search
+ *
+ * Feature modules register their search providers with `registerProvider`,
+ * e.g. in their module constructor. `search` runs the queries against all
+ * the providers and emits the results grouped by provider. Every group has
+ * its own loading and error state, so a slow or failing provider doesn't
+ * hold back the others.
+ *
+ * The queries can be scoped to the providers with `in:<provider>` and
+ * filtered with `key:value` parts, e.g. `in:orders status:open acme`.
+ * The providers get the parsed query and use the filters they know.
+ *
+ * The recent and the saved searches are stored with the FuseStorage, so they
+ * follow the user if the storage is backed by the server.
+ */
+@Injectable()
+export class FuseSearchService
+{
+    onProvidersChanged: BehaviorSubject<FuseSearchProvider[]>;
+    onRecentSearchesChanged: BehaviorSubject<string[]>;
+    onSavedSearchesChanged: BehaviorSubject<string[]>;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseStorage} fuseStorage
+     */
+    constructor(
+        private fuseStorage: FuseStorage
+    )
+    {
+        // Set the defaults
+        this.onProvidersChanged = new BehaviorSubject([]);
+        this.onRecentSearchesChanged = new BehaviorSubject([]);
+        this.onSavedSearchesChanged = new BehaviorSubject([]);
+
+        // Load the recent and the saved searches, keep
+        // the ones that are added before they are loaded
+        this.fuseStorage.get(RECENT_SEARCHES_STORAGE_KEY)
+            .subscribe((queries) => {
+                if ( Array.isArray(queries) )
+                {
+                    this.onRecentSearchesChanged.next(this._mergeQueries(this.onRecentSearchesChanged.getValue(), queries).slice(0, RECENT_SEARCHES_LIMIT));
+                }
+            });
+
+        this.fuseStorage.get(SAVED_SEARCHES_STORAGE_KEY)
+            .subscribe((queries) => {
+                if ( Array.isArray(queries) )
+                {
+                    this.onSavedSearchesChanged.next(this._mergeQueries(this.onSavedSearchesChanged.getValue(), queries));
+                }
+            });
+    }
+
+    /**
+     * Add the given provider to the registry
+     *
+     * @param {FuseSearchProvider} provider
+     */
+    registerProvider(provider: FuseSearchProvider): void
+    {
+        const providers = this.onProvidersChanged.getValue();
+
+        // Check if the id already being used
+        if ( providers.some((item) => item.id === provider.id) )
+        {
+            console.error(`The search provider with the id '${provider.id}' already exists. Either unregister it first or use a unique id.`);
+
+            return;
+        }
+
+        this.onProvidersChanged.next([...providers, provider]);
+    }
+
+    /**
+     * Remove the provider with the given id from the registry
+     *
+     * @param {string} id
+     */
+    unregisterProvider(id: string): void
+    {
+        const providers = this.onProvidersChanged.getValue();
+
+        // Check if the provider exists
+        if ( !providers.some((item) => item.id === id) )
+        {
+            console.error(`The search provider with the id '${id}' doesn't exist in the registry.`);
+
+            return;
+        }
+
+        this.onProvidersChanged.next(providers.filter((item) => item.id !== id));
+    }
+
+    /**
+     * Parse the given query into its text, scopes and filters.
+     * The scopes are the lowercased `in:` values, they can be
+     * separated with commas like `in:orders,invoices`.
+     *
+     * @param {string} query
+     * @returns {FuseSearchQuery}
+     */
+    parseQuery(query: string): FuseSearchQuery
+    {
+        const parsedQuery: FuseSearchQuery = {
+            raw    : query || '',
+            text   : '',
+            scopes : [],
+            filters: {}
+        };
+        const terms = [];
+        const pattern = new RegExp(QUERY_PART_PATTERN.source, 'g');
+        let match;
+
+        while ( (match = pattern.exec(parsedQuery.raw)) )
+        {
+            const [, key, quotedValue, value, quotedTerm, term] = match;
+
+            if ( !key )
+            {
+                terms.push(quotedTerm !== undefined ? quotedTerm : term);
+
+                continue;
+            }
+
+            const filterValue = quotedValue !== undefined ? quotedValue : value;
+
+            if ( key.toLowerCase() === 'in' )
+            {
+                parsedQuery.scopes.push(...filterValue.toLowerCase().split(',').filter((scope) => scope));
+            }
+            else
+            {
+                parsedQuery.filters[key.toLowerCase()] = filterValue;
+            }
+        }
+
+        parsedQuery.text = terms.join(' ').trim();
+
+        return parsedQuery;
+    }
+
+    /**
+     * Search the given queries. The queries are debounced and a new
+     * query cancels the searches of the previous one. Emits an empty
+     * list for the queries that have neither enough text nor filters.
+     *
+     * @param {Observable<string>} queries
+     * @returns {Observable<FuseSearchResultGroup[]>}
+     */
+    search(queries: Observable<string>): Observable<FuseSearchResultGroup[]>
+    {
+        return queries
+            .map((query) => query ? query.trim() : '')
+            .debounceTime(SEARCH_DEBOUNCE_TIME)
+            .distinctUntilChanged()
+            .map((query) => this.parseQuery(query))
+            .switchMap((query) => {
+                if ( query.text.length < MIN_QUERY_LENGTH && !Object.keys(query.filters).length )
+                {
+                    return of([]);
+                }
+
+                return this._searchProviders(query);
+            });
+    }
+
+    /**
+     * Add the given query to the top of the recent searches
+     *
+     * @param {string} query
+     */
+    addRecentSearch(query: string): void
+    {
+        query = this._normalizeQuery(query);
+
+        if ( !query )
+        {
+            return;
+        }
+
+        this._setRecentSearches([query, ...this.onRecentSearchesChanged.getValue().filter((item) => item !== query)]);
+    }
+
+    /**
+     * Remove the given query from the recent searches
+     *
+     * @param {string} query
+     */
+    removeRecentSearch(query: string): void
+    {
+        this._setRecentSearches(this.onRecentSearchesChanged.getValue().filter((item) => item !== query));
+    }
+
+    /**
+     * Remove all the recent searches
+     */
+    clearRecentSearches(): void
+    {
+        this._setRecentSearches([]);
+    }
+
+    /**
+     * Check if the given query is saved
+     *
+     * @param {string} query
+     * @returns {boolean}
+     */
+    isSearchSaved(query: string): boolean
+    {
+        return this.onSavedSearchesChanged.getValue().indexOf(this._normalizeQuery(query)) !== -1;
+    }
+
+    /**
+     * Save or unsave the given query
+     *
+     * @param {string} query
+     * @param {boolean} saved
+     */
+    setSearchSaved(query: string, saved: boolean): void
+    {
+        query = this._normalizeQuery(query);
+
+        if ( !query || this.isSearchSaved(query) === saved )
+        {
+            return;
+        }
+
+        const savedSearches = this.onSavedSearchesChanged.getValue();
+
+        this._setSavedSearches(saved ? [...savedSearches, query] : savedSearches.filter((item) => item !== query));
+    }
+
+    /**
+     * Search the given query with every provider in its
+     * scopes, emits every time one of the providers
+     * responds or fails
+     *
+     * @param {FuseSearchQuery} query
+     * @returns {Observable<FuseSearchResultGroup[]>}
+     * @private
+     */
+    private _searchProviders(query: FuseSearchQuery): Observable<FuseSearchResultGroup[]>
+    {
+        const providers = this.onProvidersChanged.getValue()
+                              .filter((provider) => this._isProviderInScopes(provider, query.scopes));
+
+        if ( !providers.length )
+        {
+            return of([]);
+        }
+
+        return combineLatest(providers.map((provider) => {
+            return defer(() => provider.search(query))
+                .take(1)
+                .map((results) => ({
+                    provider,
+                    results: results || [],
+                    loading: false,
+                    error  : null
+                }))
+                .catch((error) => of({
+                    provider,
+                    results: [],
+                    loading: false,
+                    error
+                }))
+                .startWith({
+                    provider,
+                    results: [],
+                    loading: true,
+                    error  : null
+                });
+        }));
+    }
+
+    /**
+     * Check if the given provider is in the given scopes,
+     * the scopes match either the id or the title
+     *
+     * @param {FuseSearchProvider} provider
+     * @param {string[]} scopes
+     * @returns {boolean}
+     * @private
+     */
+    private _isProviderInScopes(provider: FuseSearchProvider, scopes: string[]): boolean
+    {
+        if ( !scopes.length )
+        {
+            return true;
+        }
+
+        return scopes.indexOf(provider.id.toLowerCase()) !== -1 || scopes.indexOf(provider.title.toLowerCase()) !== -1;
+    }
+
+    /**
+     * Set and save the recent searches
+     *
+     * @param {string[]} queries
+     * @private
+     */
+    private _setRecentSearches(queries: string[]): void
+    {
+        queries = queries.slice(0, RECENT_SEARCHES_LIMIT);
+
+        this.onRecentSearchesChanged.next(queries);
+        this.fuseStorage.set(RECENT_SEARCHES_STORAGE_KEY, queries).subscribe();
+    }
+
+    /**
+     * Set and save the saved searches
+     *
+     * @param {string[]} queries
+     * @private
+     */
+    private _setSavedSearches(queries: string[]): void
+    {
+        this.onSavedSearchesChanged.next(queries);
+        this.fuseStorage.set(SAVED_SEARCHES_STORAGE_KEY, queries).subscribe();
+    }
+
+    /**
+     * Merge the stored queries after the current ones
+     *
+     * @param {string[]} queries
+     * @param {any[]} storedQueries
+     * @returns {string[]}
+     * @private
+     */
+    private _mergeQueries(queries: string[], storedQueries: any[]): string[]
+    {
+        return [
+            ...queries,
+            ...storedQueries.filter((query) => typeof query === 'string' && query && queries.indexOf(query) === -1)
+        ];
+    }
+
+    /**
+     * Trim the given query and collapse its whitespace
+     *
+     * @param {string} query
+     * @returns {string}
+     * @private
+     */
+    private _normalizeQuery(query: string): string
+    {
+        return (query || '').trim().replace(/\s+/g, ' ');
+    }
+}
@@ -1,13 +1,14 @@
-import { Component, ElementRef, OnDestroy, OnInit, Renderer2, ViewChild } from '@angular/core';
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, Renderer2, ViewChild } from '@angular/core';
+import { Router } from '@angular/router';
 import { Subscription } from 'rxjs/Subscription';
 import { ObservableMedia } from '@angular/flex-layout';
-import { CookieService } from 'ngx-cookie-service';
+import { TranslateService } from '@ngx-translate/core';
 
 import { FuseMatchMediaService } from '@fuse/services/match-media.service';
 import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
 import { FuseConfigService } from '@fuse/services/config.service';
-
-import { navigation } from 'app/navigation/navigation';
+import { FuseReorderEvent, FuseShortcut } from '@fuse/types';
+import { FuseShortcutsService } from './shortcuts.service';
 
 @Component({
     selector   : 'fuse-shortcuts',
@@ -16,77 +17,63 @@ import { navigation } from 'app/navigation/navigation';
 })
 export class FuseShortcutsComponent implements OnInit, OnDestroy
 {
-    shortcutItems: any[] = [];
+    shortcutItems: FuseShortcut[] = [];
     navigationItems: any[];
     filteredNavigationItems: any[];
     searching = false;
     mobileShortcutsPanelActive = false;
+    editingShortcut: FuseShortcut = null;
+    staleShortcuts: FuseShortcut[] = [];
     toolbarColor: string;
     matchMediaSubscription: Subscription;
     onConfigChanged: Subscription;
+    onNavigationChanged: Subscription;
+    onShortcutsChanged: Subscription;
 
     @ViewChild('searchInput') searchInputField;
     @ViewChild('shortcuts') shortcutsEl: ElementRef;
 
     constructor(
         private renderer: Renderer2,
+        private router: Router,
         private observableMedia: ObservableMedia,
+        private translateService: TranslateService,
         private fuseMatchMedia: FuseMatchMediaService,
         private fuseNavigationService: FuseNavigationService,
         private fuseConfig: FuseConfigService,
-        private cookieService: CookieService
+        private fuseShortcutsService: FuseShortcutsService
     )
     {
-        this.filteredNavigationItems = this.navigationItems = this.fuseNavigationService.getFlatNavigation(navigation);
+        this.onNavigationChanged =
+            this.fuseNavigationService.onNavigationChanged
+                .subscribe(
+                    () => {
+                        this.filteredNavigationItems = this.navigationItems = this.fuseNavigationService.getFlatNavigation();
+                        this.staleShortcuts = this.fuseShortcutsService.getStaleShortcuts();
+                    }
+                );
 
         this.onConfigChanged =
-            this.fuseConfig.onConfigChanged
+            this.fuseConfig.select('colorClasses.toolbar')
+                .subscribe(
+                    (toolbarColor) => {
+                        this.toolbarColor = toolbarColor;
+                    }
+                );
+
+        this.onShortcutsChanged =
+            this.fuseShortcutsService.onShortcutsChanged
                 .subscribe(
-                    (newSettings) => {
-                        this.toolbarColor = newSettings.colorClasses.toolbar;
+                    (shortcuts) => {
+                        this.shortcutItems = shortcuts;
+                        this.editingShortcut = null;
+                        this.staleShortcuts = this.fuseShortcutsService.getStaleShortcuts();
                     }
                 );
     }
 
     ngOnInit()
     {
-        const cookieExists = this.cookieService.check('FUSE2.shortcuts');
-
-        if ( cookieExists )
-        {
-            this.shortcutItems = JSON.parse(this.cookieService.get('FUSE2.shortcuts'));
-        }
-        else
-        {
-            // User's shortcut items
-            this.shortcutItems = [
-                {
-                    'title': 'Calendar',
-                    'type' : 'nav-item',
-                    'icon' : 'today',
-                    'url'  : '/apps/calendar'
-                },
-                {
-                    'title': 'Mail',
-                    'type' : 'nav-item',
-                    'icon' : 'email',
-                    'url'  : '/apps/mail'
-                },
-                {
-                    'title': 'Contacts',
-                    'type' : 'nav-item',
-                    'icon' : 'account_box',
-                    'url'  : '/apps/contacts'
-                },
-                {
-                    'title': 'To-Do',
-                    'type' : 'nav-item',
-                    'icon' : 'check_box',
-                    'url'  : '/apps/todo'
-                }
-            ];
-        }
-
         this.matchMediaSubscription =
             this.fuseMatchMedia.onMediaChange.subscribe(() => {
                 if ( this.observableMedia.isActive('gt-sm') )
@@ -99,12 +86,19 @@ export class FuseShortcutsComponent implements OnInit, OnDestroy
     ngOnDestroy()
     {
         this.matchMediaSubscription.unsubscribe();
+        this.onConfigChanged.unsubscribe();
+        this.onNavigationChanged.unsubscribe();
+        this.onShortcutsChanged.unsubscribe();
     }
 
     search(event)
     {
         const value = event.target.value.toLowerCase();
 
+        // Get the navigation items from the index
+        // to search within the up to date titles
+        this.navigationItems = this.fuseNavigationService.getFlatNavigation();
+
         if ( value === '' )
         {
             this.searching = false;
@@ -124,30 +118,115 @@ export class FuseShortcutsComponent implements OnInit, OnDestroy
     {
         event.stopPropagation();
 
-        for ( let i = 0; i < this.shortcutItems.length; i++ )
-        {
-            if ( this.shortcutItems[i].url === itemToToggle.url )
-            {
-                this.shortcutItems.splice(i, 1);
+        this.fuseShortcutsService.toggleShortcut(itemToToggle);
+    }
+
+    isInShortcuts(navigationItem)
+    {
+        return this.fuseShortcutsService.hasShortcut(navigationItem.url);
+    }
+
+    pruneStaleShortcuts(event)
+    {
+        event.stopPropagation();
+
+        this.fuseShortcutsService.pruneStaleShortcuts();
+    }
 
-                // Save to the cookies
-                this.cookieService.set('FUSE2.shortcuts', JSON.stringify(this.shortcutItems));
+    getTooltip(shortcutItem, index)
+    {
+        const title = shortcutItem.translate ? this.translateService.instant(shortcutItem.translate) : shortcutItem.title;
 
-                return;
-            }
+        // The first nine shortcuts have hotkeys
+        return index < 9 ? `${title} (Alt+${index + 1})` : title;
+    }
+
+    /**
+     * Open the Nth shortcut with Alt+N
+     *
+     * @param {KeyboardEvent} event
+     */
+    @HostListener('document:keydown', ['$event'])
+    onDocumentKeydown(event: KeyboardEvent)
+    {
+        if ( !event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || this._isEditable(event.target as HTMLElement) )
+        {
+            return;
         }
 
-        this.shortcutItems.push(itemToToggle);
+        // Use the physical key, Alt changes the typed
+        // character on some keyboard layouts
+        const match = /^Digit([1-9])$/.exec(event.code) || /^([1-9])$/.exec(event.key);
 
-        // Save to the cookies
-        this.cookieService.set('FUSE2.shortcuts', JSON.stringify(this.shortcutItems));
+        if ( !match || !this.shortcutItems[+match[1] - 1] )
+        {
+            return;
+        }
+
+        event.preventDefault();
+        this.openShortcut(this.shortcutItems[+match[1] - 1]);
     }
 
-    isInShortcuts(navigationItem)
+    openShortcut(shortcutItem)
     {
-        return this.shortcutItems.find(item => {
-            return item.url === navigationItem.url;
+        const target = shortcutItem.target || (shortcutItem.openInNewTab ? '_blank' : '_self');
+
+        if ( shortcutItem.externalUrl )
+        {
+            window.open(shortcutItem.url, target);
+
+            return;
+        }
+
+        const urlTree = this.router.createUrlTree([shortcutItem.url], {
+            queryParams: shortcutItem.queryParams,
+            fragment   : shortcutItem.fragment
         });
+
+        // Open the internal shortcuts in their target like the links do
+        if ( target !== '_self' )
+        {
+            window.open(this.router.serializeUrl(urlTree), target);
+
+            return;
+        }
+
+        this.router.navigateByUrl(urlTree);
+    }
+
+    editShortcut(event, shortcutItem)
+    {
+        event.stopPropagation();
+
+        this.editingShortcut = shortcutItem;
+    }
+
+    saveShortcut(event, shortcutItem, title: string, icon: string)
+    {
+        event.stopPropagation();
+
+        // Keep the current, maybe translated, title if the new one is
+        // empty or unchanged, an empty icon shows the first letter of the title
+        const properties: { title?: string, icon: string } = {icon: icon.trim()};
+
+        if ( title.trim() && title.trim() !== shortcutItem.title )
+        {
+            properties.title = title.trim();
+        }
+
+        this.fuseShortcutsService.updateShortcut(shortcutItem.url, properties);
+    }
+
+    cancelEdit(event)
+    {
+        event.stopPropagation();
+
+        this.editingShortcut = null;
+    }
+
+    onReorder(event: FuseReorderEvent)
+    {
+        this.fuseShortcutsService.moveShortcut(event.fromIndex, event.toIndex);
     }
 
     onMenuOpen()
@@ -168,4 +247,16 @@ export class FuseShortcutsComponent implements OnInit, OnDestroy
         this.mobileShortcutsPanelActive = false;
         this.renderer.removeClass(this.shortcutsEl.nativeElement, 'show-mobile-panel');
     }
+
+    /**
+     * Check if the given element takes text input
+     *
+     * @param {HTMLElement} element
+     * @returns {boolean}
+     * @private
+     */
+    private _isEditable(element: HTMLElement): boolean
+    {
+        return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(element.tagName) !== -1);
+    }
 }
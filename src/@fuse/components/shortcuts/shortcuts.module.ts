@@ -3,7 +3,11 @@ import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 import { FlexLayoutModule } from '@angular/flex-layout';
 import { MatButtonModule, MatDividerModule, MatFormFieldModule, MatIconModule, MatInputModule, MatListModule, MatMenuModule, MatTooltipModule } from '@angular/material';
-import { CookieService } from 'ngx-cookie-service';
+
+import { NgxDnDModule } from '@swimlane/ngx-dnd';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { FuseDirectivesModule } from '@fuse/directives/directives';
 
 import { FuseShortcutsComponent } from './shortcuts.component';
 
@@ -24,13 +28,15 @@ import { FuseShortcutsComponent } from './shortcuts.component';
         MatInputModule,
         MatMenuModule,
         MatListModule,
-        MatTooltipModule
+        MatTooltipModule,
+
+        NgxDnDModule,
+        TranslateModule.forChild(),
+
+        FuseDirectivesModule
     ],
     exports     : [
         FuseShortcutsComponent
-    ],
-    providers   : [
-        CookieService
     ]
 })
 export class FuseShortcutsModule
@@ -0,0 +1,107 @@
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { of } from 'rxjs/observable/of';
+import { CookieService } from 'ngx-cookie-service';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseNavigationItem } from '@fuse/types';
+import { FuseMemoryStorage } from '@fuse/testing/memory-storage';
+import { FuseShortcutsService } from './shortcuts.service';
+
+describe('FuseShortcutsService', () => {
+    let fuseStorage: FuseMemoryStorage;
+    let cookies: { [name: string]: string };
+    let navigation: FuseNavigationItem[];
+
+    const calendar: FuseNavigationItem = {id: 'calendar', title: 'Calendar', type: 'item', url: '/apps/calendar'};
+    const mail: FuseNavigationItem = {id: 'mail', title: 'Mail', type: 'item', url: '/apps/mail'};
+
+    function createService(): FuseShortcutsService
+    {
+        const fuseNavigationService: Partial<FuseNavigationService> = {
+            onNavigationChanged: new BehaviorSubject(navigation),
+            getNavigation      : () => navigation,
+            getFlatNavigation  : () => []
+        };
+
+        const cookieService: Partial<CookieService> = {
+            check : (name) => cookies.hasOwnProperty(name),
+            get   : (name) => cookies[name],
+            delete: (name) => {
+                delete cookies[name];
+            }
+        };
+
+        return new FuseShortcutsService(
+            fuseNavigationService as FuseNavigationService,
+            fuseStorage,
+            cookieService as CookieService
+        );
+    }
+
+    beforeEach(() => {
+        fuseStorage = new FuseMemoryStorage();
+        cookies = {};
+        navigation = [calendar, mail];
+    });
+
+    describe('migrating the legacy cookie', () => {
+
+        it('should move the shortcuts from the cookie to the storage', () => {
+            cookies['FUSE2.shortcuts'] = JSON.stringify([{title: 'Calendar', icon: 'today', url: '/apps/calendar'}]);
+
+            const service = createService();
+
+            expect(service.onShortcutsChanged.getValue().map((shortcut) => shortcut.url)).toEqual(['/apps/calendar']);
+            expect(fuseStorage.values.shortcuts.map((shortcut) => shortcut.icon)).toEqual(['today']);
+            expect(cookies['FUSE2.shortcuts']).toBeUndefined();
+        });
+
+        it('should leave out the shortcuts without a url', () => {
+            cookies['FUSE2.shortcuts'] = JSON.stringify([null, {title: 'Broken'}, {title: 'Mail', url: '/apps/mail'}]);
+
+            expect(createService().onShortcutsChanged.getValue().map((shortcut) => shortcut.url)).toEqual(['/apps/mail']);
+        });
+
+        it('should drop a corrupted cookie', () => {
+            cookies['FUSE2.shortcuts'] = '[{"title":';
+
+            createService();
+
+            expect(fuseStorage.values.shortcuts).toBeUndefined();
+            expect(cookies['FUSE2.shortcuts']).toBeUndefined();
+        });
+
+        it('should prefer the stored shortcuts over the cookie', () => {
+            fuseStorage.values.shortcuts = [{title: 'Mail', url: '/apps/mail'}];
+            cookies['FUSE2.shortcuts'] = JSON.stringify([{title: 'Calendar', url: '/apps/calendar'}]);
+
+            const service = createService();
+
+            expect(service.onShortcutsChanged.getValue().map((shortcut) => shortcut.url)).toEqual(['/apps/mail']);
+            expect(cookies['FUSE2.shortcuts']).toBeDefined();
+        });
+    });
+
+    describe('getStaleShortcuts', () => {
+
+        it('should find the shortcuts whose url is no longer in the navigation', () => {
+            fuseStorage.values.shortcuts = [{title: 'Mail', url: '/apps/mail'}, {title: 'Chat', url: '/apps/chat'}];
+
+            expect(createService().getStaleShortcuts().map((shortcut) => shortcut.url)).toEqual(['/apps/chat']);
+        });
+
+        it('should check the hidden items too', () => {
+            navigation = [calendar, {...mail, hidden: true}];
+            fuseStorage.values.shortcuts = [{title: 'Mail', url: '/apps/mail'}];
+
+            expect(createService().getStaleShortcuts()).toEqual([]);
+        });
+
+        it('should not find anything while there are children to load', () => {
+            navigation = [calendar, {id: 'projects', title: 'Projects', type: 'collapse', childrenLoader: () => of([])}];
+            fuseStorage.values.shortcuts = [{title: 'Chat', url: '/apps/chat'}];
+
+            expect(createService().getStaleShortcuts()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,354 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { CookieService } from 'ngx-cookie-service';
+
+import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FuseNavigationIndexEntry, FuseNavigationItem, FuseShortcut } from '@fuse/types';
+
+// Define the storage key of the shortcuts
+const SHORTCUTS_STORAGE_KEY = 'shortcuts';
+
+// Define the name of the cookie the shortcuts used to be stored in
+const LEGACY_SHORTCUTS_COOKIE = 'FUSE2.shortcuts';
+
+// Define the number of the default shortcuts
+const DEFAULT_SHORTCUTS_LIMIT = 4;
+
+/**
+ * Owns the user's shortcuts
+ *
+ * The shortcuts are stored with the FuseStorage, so they follow the user
+ * if the storage is backed by the server. Until the user changes them, the
+ * shortcuts are the first pages of the navigation. The shortcuts that are
+ * found in the legacy 'FUSE2.shortcuts' cookie are moved to the storage once.
+ *
+ * The shortcuts keep their own title and icon, so they can be renamed without
+ * changing the navigation. The shortcuts whose url is no longer in the
+ * navigation are stale, they can be removed with `pruneStaleShortcuts`.
+ * The whole navigation is checked, including the items the user can't
+ * access, and nothing is stale while there are children left to load
+ * as the url may be one of them.
+ */
+@Injectable()
+export class FuseShortcutsService
+{
+    onShortcutsChanged: BehaviorSubject<FuseShortcut[]>;
+
+    // Private
+    private _customized: boolean;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseNavigationService} fuseNavigationService
+     * @param {FuseStorage} fuseStorage
+     * @param {CookieService} cookieService
+     */
+    constructor(
+        private fuseNavigationService: FuseNavigationService,
+        private fuseStorage: FuseStorage,
+        private cookieService: CookieService
+    )
+    {
+        // Set the defaults
+        this._customized = false;
+        this.onShortcutsChanged = new BehaviorSubject([]);
+
+        // Follow the navigation with the default
+        // shortcuts until the user changes them
+        this.fuseNavigationService.onNavigationChanged
+            .subscribe(() => {
+                if ( !this._customized )
+                {
+                    this.onShortcutsChanged.next(this._getDefaultShortcuts());
+                }
+            });
+
+        // Load the shortcuts, fallback to the legacy cookie
+        this.fuseStorage.get(SHORTCUTS_STORAGE_KEY)
+            .subscribe((shortcuts) => {
+                if ( this._customized )
+                {
+                    return;
+                }
+
+                if ( Array.isArray(shortcuts) )
+                {
+                    this._customized = true;
+                    this.onShortcutsChanged.next(shortcuts);
+
+                    return;
+                }
+
+                this._migrateCookie();
+            });
+    }
+
+    /**
+     * Check if there is a shortcut to the given url
+     *
+     * @param {string} url
+     * @returns {boolean}
+     */
+    hasShortcut(url: string): boolean
+    {
+        return this.onShortcutsChanged.getValue().some((shortcut) => shortcut.url === url);
+    }
+
+    /**
+     * Add a shortcut to the given navigation item
+     *
+     * @param {FuseNavigationIndexEntry | FuseShortcut} item
+     */
+    addShortcut(item: FuseNavigationIndexEntry | FuseShortcut): void
+    {
+        if ( this.hasShortcut(item.url) )
+        {
+            return;
+        }
+
+        this._setShortcuts([...this.onShortcutsChanged.getValue(), this._toShortcut(item)]);
+    }
+
+    /**
+     * Remove the shortcut to the given url
+     *
+     * @param {string} url
+     */
+    removeShortcut(url: string): void
+    {
+        this._setShortcuts(this.onShortcutsChanged.getValue().filter((shortcut) => shortcut.url !== url));
+    }
+
+    /**
+     * Add or remove the shortcut to the given navigation item
+     *
+     * @param {FuseNavigationIndexEntry | FuseShortcut} item
+     */
+    toggleShortcut(item: FuseNavigationIndexEntry | FuseShortcut): void
+    {
+        if ( this.hasShortcut(item.url) )
+        {
+            this.removeShortcut(item.url);
+        }
+        else
+        {
+            this.addShortcut(item);
+        }
+    }
+
+    /**
+     * Move the shortcut at the given index to the new index
+     *
+     * @param {number} fromIndex
+     * @param {number} toIndex
+     */
+    moveShortcut(fromIndex: number, toIndex: number): void
+    {
+        const shortcuts = [...this.onShortcutsChanged.getValue()];
+
+        if ( fromIndex === toIndex || !shortcuts[fromIndex] )
+        {
+            return;
+        }
+
+        shortcuts.splice(Math.min(Math.max(toIndex, 0), shortcuts.length - 1), 0, shortcuts.splice(fromIndex, 1)[0]);
+
+        this._setShortcuts(shortcuts);
+    }
+
+    /**
+     * Change the title and/or the icon of the shortcut to the given url.
+     * The navigation item of the url stays as it is.
+     *
+     * @param {string} url
+     * @param {{title?: string, icon?: string}} properties
+     */
+    updateShortcut(url: string, properties: { title?: string, icon?: string }): void
+    {
+        if ( !this.hasShortcut(url) )
+        {
+            console.error(`There is no shortcut to the url '${url}'.`);
+
+            return;
+        }
+
+        this._setShortcuts(this.onShortcutsChanged.getValue().map((shortcut) => {
+            if ( shortcut.url !== url )
+            {
+                return shortcut;
+            }
+
+            const updatedShortcut = {
+                ...shortcut,
+                ...properties
+            };
+
+            // The custom title replaces the translated one
+            if ( properties.hasOwnProperty('title') )
+            {
+                delete updatedShortcut.translate;
+            }
+
+            return updatedShortcut;
+        }));
+    }
+
+    /**
+     * Get the shortcuts whose url is no longer in the navigation
+     *
+     * @returns {FuseShortcut[]}
+     */
+    getStaleShortcuts(): FuseShortcut[]
+    {
+        const urls = this._getNavigationUrls(this.fuseNavigationService.getNavigation());
+
+        // The urls are unknown until all the children are loaded
+        if ( !urls )
+        {
+            return [];
+        }
+
+        return this.onShortcutsChanged.getValue().filter((shortcut) => urls.indexOf(shortcut.url) === -1);
+    }
+
+    /**
+     * Remove the stale shortcuts
+     */
+    pruneStaleShortcuts(): void
+    {
+        const shortcuts = this.onShortcutsChanged.getValue();
+        const staleShortcuts = this.getStaleShortcuts();
+        const validShortcuts = shortcuts.filter((shortcut) => staleShortcuts.indexOf(shortcut) === -1);
+
+        if ( validShortcuts.length !== shortcuts.length )
+        {
+            this._setShortcuts(validShortcuts);
+        }
+    }
+
+    /**
+     * Get the urls of the given navigation items and their children,
+     * or null if some of the children aren't loaded yet
+     *
+     * @param {FuseNavigationItem[]} items
+     * @returns {string[]}
+     * @private
+     */
+    private _getNavigationUrls(items: FuseNavigationItem[]): string[]
+    {
+        const urls = [];
+
+        for ( const item of items )
+        {
+            if ( item.childrenLoader && !item.children )
+            {
+                return null;
+            }
+
+            if ( item.url )
+            {
+                urls.push(item.url);
+            }
+
+            if ( item.children )
+            {
+                const childUrls = this._getNavigationUrls(item.children);
+
+                if ( !childUrls )
+                {
+                    return null;
+                }
+
+                urls.push(...childUrls);
+            }
+        }
+
+        return urls;
+    }
+
+    /**
+     * Set and save the shortcuts
+     *
+     * @param {FuseShortcut[]} shortcuts
+     * @private
+     */
+    private _setShortcuts(shortcuts: FuseShortcut[]): void
+    {
+        this._customized = true;
+        this.onShortcutsChanged.next(shortcuts);
+        this.fuseStorage.set(SHORTCUTS_STORAGE_KEY, shortcuts).subscribe();
+    }
+
+    /**
+     * Get the shortcuts to the first pages of the navigation
+     *
+     * @returns {FuseShortcut[]}
+     * @private
+     */
+    private _getDefaultShortcuts(): FuseShortcut[]
+    {
+        return this.fuseNavigationService.getFlatNavigation()
+                   .filter((entry) => entry.url && !entry.externalUrl && !entry.item.hidden)
+                   .slice(0, DEFAULT_SHORTCUTS_LIMIT)
+                   .map((entry) => this._toShortcut(entry));
+    }
+
+    /**
+     * Move the shortcuts from the legacy cookie to the storage
+     *
+     * @private
+     */
+    private _migrateCookie(): void
+    {
+        if ( !this.cookieService.check(LEGACY_SHORTCUTS_COOKIE) )
+        {
+            return;
+        }
+
+        let shortcuts;
+
+        try
+        {
+            shortcuts = JSON.parse(this.cookieService.get(LEGACY_SHORTCUTS_COOKIE));
+        }
+        catch ( e )
+        {
+            // The cookie is corrupted, drop it below
+        }
+
+        if ( Array.isArray(shortcuts) )
+        {
+            this._setShortcuts(shortcuts.filter((shortcut) => shortcut && shortcut.url).map((shortcut) => this._toShortcut(shortcut)));
+        }
+
+        // The cookie was set without a path, so it's either
+        // on the current path or on the root
+        this.cookieService.delete(LEGACY_SHORTCUTS_COOKIE);
+        this.cookieService.delete(LEGACY_SHORTCUTS_COOKIE, '/');
+    }
+
+    /**
+     * Create a shortcut from the given navigation item
+     *
+     * @param {FuseNavigationIndexEntry | FuseShortcut} item
+     * @returns {FuseShortcut}
+     * @private
+     */
+    private _toShortcut(item: FuseNavigationIndexEntry | FuseShortcut): FuseShortcut
+    {
+        return {
+            id          : item.id,
+            title       : item.title,
+            translate   : item.translate,
+            icon        : item.icon,
+            url         : item.url,
+            externalUrl : item.externalUrl,
+            target      : item.target,
+            openInNewTab: item.openInNewTab,
+            queryParams : item.queryParams,
+            fragment    : item.fragment
+        };
+    }
+}
@@ -1,4 +1,4 @@
-import { Component, ElementRef, HostBinding, HostListener, Input, OnDestroy, OnInit, Renderer2, ViewEncapsulation } from '@angular/core';
+import { Component, ElementRef, HostBinding, HostListener, Input, NgZone, OnDestroy, OnInit, Renderer2, ViewEncapsulation } from '@angular/core';
 import { animate, AnimationBuilder, AnimationPlayer, style } from '@angular/animations';
 import { ObservableMedia } from '@angular/flex-layout';
 import { Subscription } from 'rxjs/Subscription';
@@ -6,6 +6,19 @@ import { Subscription } from 'rxjs/Subscription';
 import { FuseSidebarService } from './sidebar.service';
 import { FuseMatchMediaService } from '@fuse/services/match-media.service';
 import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseStorage } from '@fuse/services/storage.service';
+
+// Define the default widths, the unfolded width must match the styles
+const DEFAULT_WIDTH = 280;
+const DEFAULT_MIN_WIDTH = 200;
+const DEFAULT_MAX_WIDTH = 480;
+const DEFAULT_FOLDED_WIDTH = 64;
+
+// Define how much the arrow keys resize the sidebar
+const KEYBOARD_RESIZE_STEP = 16;
+
+// Define the prefix of the storage keys of the widths
+const WIDTH_STORAGE_KEY_PREFIX = 'sidebar-width-';
 
 @Component({
     selector     : 'fuse-sidebar',
@@ -49,56 +62,82 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
         // Set the folded
         this._folded = value;
 
-        // Programmatically add/remove margin to the element
-        // that comes after or before based on the alignment
-        let sibling,
-            styleRule;
-
-        const styleValue = '64px';
+        // Update the margin of the sibling
+        this._updateSiblingMargin();
+    }
 
-        // Get the sibling and set the style rule
-        if ( this.align === 'left' )
-        {
-            sibling = this.elementRef.nativeElement.nextElementSibling;
-            styleRule = 'marginLeft';
-        }
-        else
-        {
-            sibling = this.elementRef.nativeElement.previousElementSibling;
-            styleRule = 'marginRight';
-        }
+    get folded(): boolean
+    {
+        return this._folded;
+    }
 
-        // If there is no sibling, return...
-        if ( !sibling )
-        {
-            return;
-        }
+    // Folded width
+    @Input()
+    set foldedWidth(value: number)
+    {
+        // Set the folded width
+        this._foldedWidth = value;
 
-        // If folded...
-        if ( value )
+        // Update the margin of the sibling if the sidebar is already folded
+        if ( this.folded )
         {
-            // Set the style
-            this.renderer.setStyle(sibling, styleRule, styleValue);
-        }
-        // If unfolded...
-        else
-        {
-            // Remove the style
-            this.renderer.removeStyle(sibling, styleRule);
+            this._updateSiblingMargin();
         }
     }
 
-    get folded(): boolean
+    get foldedWidth(): number
     {
-        return this._folded;
+        return this._foldedWidth;
     }
 
     // Folded unfolded
     @HostBinding('class.unfolded')
     unfolded: boolean;
 
+    // Resizable
+    @Input()
+    resizable: boolean;
+
+    // Min width
+    @Input()
+    minWidth: number;
+
+    // Max width
+    @Input()
+    maxWidth: number;
+
+    // Width, uses the width from the styles if it's not set
+    width: number | null;
+
+    // Resizing
+    @HostBinding('class.resizing')
+    resizing: boolean;
+
+    // Current width
+    @HostBinding('style.width.px')
+    @HostBinding('style.min-width.px')
+    @HostBinding('style.max-width.px')
+    get currentWidth(): number | null
+    {
+        // Use the folded width if the sidebar is folded
+        if ( this.folded && !this.unfolded )
+        {
+            return this.foldedWidth;
+        }
+
+        // Keep the width in the limits, they can change after the width is set
+        if ( this.width )
+        {
+            return Math.min(Math.max(this.width, this.minWidth), this.maxWidth);
+        }
+
+        return null;
+    }
+
     // Private
     private _folded: boolean;
+    private _foldedWidth: number;
+    private _resizeListeners: (() => void)[] = [];
     private _wasActive: boolean;
     private _backdrop: HTMLElement | null = null;
     private _player: AnimationPlayer;
@@ -109,26 +148,36 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
      *
      * @param {Renderer2} renderer
      * @param {ElementRef} elementRef
+     * @param {NgZone} ngZone
      * @param {AnimationBuilder} animationBuilder
      * @param {ObservableMedia} observableMedia
      * @param {FuseConfigService} fuseConfigService
      * @param {FuseSidebarService} fuseSidebarService
      * @param {FuseMatchMediaService} fuseMatchMediaService
+     * @param {FuseStorage} fuseStorage
      */
     constructor(
         private renderer: Renderer2,
         private elementRef: ElementRef,
+        private ngZone: NgZone,
         private animationBuilder: AnimationBuilder,
         private observableMedia: ObservableMedia,
         private fuseConfigService: FuseConfigService,
         private fuseSidebarService: FuseSidebarService,
-        private fuseMatchMediaService: FuseMatchMediaService
+        private fuseMatchMediaService: FuseMatchMediaService,
+        private fuseStorage: FuseStorage
     )
     {
         // Set the defaults
         this.opened = false;
         this.folded = false;
+        this.foldedWidth = DEFAULT_FOLDED_WIDTH;
         this.align = 'left';
+        this.resizable = false;
+        this.minWidth = DEFAULT_MIN_WIDTH;
+        this.maxWidth = DEFAULT_MAX_WIDTH;
+        this.width = null;
+        this.resizing = false;
     }
 
     /**
@@ -144,6 +193,9 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
 
         // Setup lockedOpen
         this._setupLockedOpen();
+
+        // Restore the width
+        this._restoreWidth();
     }
 
     /**
@@ -157,6 +209,9 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
             this.unfold();
         }
 
+        // Stop resizing
+        this._removeResizeListeners();
+
         // Unregister the sidebar
         this.fuseSidebarService.unregister(this.name);
 
@@ -183,6 +238,96 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
         }
     }
 
+    /**
+     * Add/remove margin to the element that comes after or
+     * before based on the alignment, so the folded sidebar
+     * doesn't cover it
+     *
+     * @private
+     */
+    private _updateSiblingMargin(): void
+    {
+        let sibling,
+            styleRule;
+
+        // Get the sibling and set the style rule
+        if ( this.align === 'left' )
+        {
+            sibling = this.elementRef.nativeElement.nextElementSibling;
+            styleRule = 'marginLeft';
+        }
+        else
+        {
+            sibling = this.elementRef.nativeElement.previousElementSibling;
+            styleRule = 'marginRight';
+        }
+
+        // If there is no sibling, return...
+        if ( !sibling )
+        {
+            return;
+        }
+
+        // If folded...
+        if ( this.folded )
+        {
+            // Set the style
+            this.renderer.setStyle(sibling, styleRule, this.foldedWidth + 'px');
+        }
+        // If unfolded...
+        else
+        {
+            // Remove the style
+            this.renderer.removeStyle(sibling, styleRule);
+        }
+    }
+
+    /**
+     * Restore the saved width of the sidebar
+     *
+     * @private
+     */
+    private _restoreWidth(): void
+    {
+        if ( !this.resizable || !this.name )
+        {
+            return;
+        }
+
+        this.fuseStorage.get(WIDTH_STORAGE_KEY_PREFIX + this.name)
+            .subscribe((width) => {
+
+                // Don't override the width if the user already resized the sidebar
+                if ( typeof width === 'number' && !this.width )
+                {
+                    this.width = width;
+                }
+            });
+    }
+
+    /**
+     * Keep the given width between the min and the max widths
+     *
+     * @param {number} width
+     * @returns {number}
+     * @private
+     */
+    private _limitWidth(width: number): number
+    {
+        return Math.round(Math.min(Math.max(width, this.minWidth), this.maxWidth));
+    }
+
+    /**
+     * Remove the document listeners of the resizing
+     *
+     * @private
+     */
+    private _removeResizeListeners(): void
+    {
+        this._resizeListeners.forEach((unlisten) => unlisten());
+        this._resizeListeners = [];
+    }
+
     /**
      * Setup the lockedOpen handler
      *
@@ -376,6 +521,140 @@ export class FuseSidebarComponent implements OnInit, OnDestroy
         }
     }
 
+    /**
+     * Start resizing the sidebar by dragging the handle
+     *
+     * The width is set on the element while dragging, outside
+     * of the Angular zone, and only set on the sidebar once
+     * the dragging is done to not run the change detection
+     * on every move.
+     *
+     * @param {PointerEvent} event
+     */
+    startResize(event: PointerEvent): void
+    {
+        // Only work with the main button or the first touch
+        if ( !this.resizable || !event.isPrimary || event.button !== 0 )
+        {
+            return;
+        }
+
+        // Prevent the text selection
+        event.preventDefault();
+
+        const startX = event.clientX;
+        const startWidth = this.getWidth();
+        let width: number = null;
+
+        this.resizing = true;
+        this.renderer.addClass(document.body, 'fuse-sidebar-resizing');
+
+        const endResize = () => {
+
+            this._removeResizeListeners();
+
+            this.ngZone.run(() => {
+                this.resizing = false;
+                this.renderer.removeClass(document.body, 'fuse-sidebar-resizing');
+
+                // Save the width once the dragging is done
+                if ( width !== null )
+                {
+                    this.setWidth(width);
+                }
+            });
+        };
+
+        this.ngZone.runOutsideAngular(() => {
+            this._resizeListeners = [
+                this.renderer.listen('document', 'pointermove', (moveEvent: PointerEvent) => {
+
+                    if ( moveEvent.pointerId !== event.pointerId )
+                    {
+                        return;
+                    }
+
+                    // The right aligned sidebar grows to the left
+                    const delta = (moveEvent.clientX - startX) * (this.align === 'right' ? -1 : 1);
+
+                    width = this._limitWidth(startWidth + delta);
+
+                    ['width', 'min-width', 'max-width'].forEach((property) => {
+                        this.renderer.setStyle(this.elementRef.nativeElement, property, width + 'px');
+                    });
+                }),
+                this.renderer.listen('document', 'pointerup', endResize),
+                this.renderer.listen('document', 'pointercancel', endResize)
+            ];
+        });
+    }
+
+    /**
+     * Resize the sidebar with the arrow keys
+     *
+     * @param {KeyboardEvent} event
+     */
+    onResizeHandleKeydown(event: KeyboardEvent): void
+    {
+        // The arrow towards the sidebar makes it narrower
+        const direction = this.align === 'right' ? -1 : 1;
+        const width = this.getWidth();
+
+        switch ( event.key )
+        {
+            case 'ArrowLeft':
+                event.preventDefault();
+                this.setWidth(width - direction * KEYBOARD_RESIZE_STEP);
+                break;
+
+            case 'ArrowRight':
+                event.preventDefault();
+                this.setWidth(width + direction * KEYBOARD_RESIZE_STEP);
+                break;
+        }
+    }
+
+    /**
+     * Set the width of the sidebar, keep it between
+     * the min and the max widths and save it
+     *
+     * @param {number} width
+     * @param {boolean} save
+     */
+    setWidth(width: number, save = true): void
+    {
+        this.width = this._limitWidth(width);
+
+        if ( save && this.name )
+        {
+            this.fuseStorage.set(WIDTH_STORAGE_KEY_PREFIX + this.name, this.width).subscribe();
+        }
+    }
+
+    /**
+     * Get the width of the sidebar, the default
+     * one if the sidebar isn't resized
+     *
+     * @returns {number}
+     */
+    getWidth(): number
+    {
+        return this.currentWidth || DEFAULT_WIDTH;
+    }
+
+    /**
+     * Reset the width of the sidebar to the default one
+     */
+    resetWidth(): void
+    {
+        this.width = null;
+
+        if ( this.name )
+        {
+            this.fuseStorage.remove(WIDTH_STORAGE_KEY_PREFIX + this.name).subscribe();
+        }
+    }
+
     /**
      * Show the backdrop
      */
@@ -1,4 +1,5 @@
 import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
 
 import { FuseSidebarComponent } from './sidebar.component';
 
@@ -6,6 +7,9 @@ import { FuseSidebarComponent } from './sidebar.component';
     declarations: [
         FuseSidebarComponent
     ],
+    imports     : [
+        CommonModule
+    ],
     exports     : [
         FuseSidebarComponent
     ]
@@ -4,9 +4,10 @@ import { Subscription } from 'rxjs/Subscription';
 
 import { fuseAnimations } from '@fuse/animations';
 import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseConfig } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
 import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
-
-import { navigation } from 'app/navigation/navigation';
+import { FuseThemeOptionsService, FuseThemePreset } from '@fuse/components/theme-options/theme-options.service';
 
 @Component({
     selector   : 'fuse-theme-options',
@@ -21,9 +22,13 @@ export class FuseThemeOptionsComponent implements OnInit, OnDestroy
     @ViewChild('overlay') overlay: ElementRef;
 
     public player: AnimationPlayer;
-    config: any;
+    config: FuseConfig;
+    presets: FuseThemePreset[];
+    presetName: string;
+    importError: string;
 
     onConfigChanged: Subscription;
+    onPresetsChanged: Subscription;
 
     @HostBinding('class.bar-closed') barClosed: boolean;
 
@@ -31,24 +36,32 @@ export class FuseThemeOptionsComponent implements OnInit, OnDestroy
         private animationBuilder: AnimationBuilder,
         private fuseConfig: FuseConfigService,
         private navigationService: FuseNavigationService,
-        private renderer: Renderer2
+        private renderer: Renderer2,
+        public themeOptionsService: FuseThemeOptionsService
     )
     {
         this.barClosed = true;
 
+        // Work on a copy of the config so the
+        // changes can be recorded in the history
         this.onConfigChanged =
             this.fuseConfig.onConfigChanged
                 .subscribe(
                     (newConfig) => {
-                        this.config = newConfig;
+                        this.config = FuseUtils.cloneDeep(newConfig);
                     }
                 );
 
-        // Get the nav model and add customize nav item
-        // that opens the bar programmatically
-        const nav: any = navigation;
+        this.onPresetsChanged =
+            this.themeOptionsService.onPresetsChanged
+                .subscribe(
+                    (presets) => {
+                        this.presets = presets;
+                    }
+                );
 
-        nav.push({
+        // Add customize nav item that opens the bar programmatically
+        this.navigationService.registerNavigationItem({
             'id'      : 'custom-function',
             'title'   : 'Custom Function',
             'type'    : 'group',
@@ -76,11 +89,95 @@ export class FuseThemeOptionsComponent implements OnInit, OnDestroy
     ngOnDestroy()
     {
         this.onConfigChanged.unsubscribe();
+        this.onPresetsChanged.unsubscribe();
+
+        // Remove the customize nav item
+        this.navigationService.removeNavigationItem('custom-function');
     }
 
     onSettingsChange()
     {
-        this.fuseConfig.setConfig(this.config);
+        this.themeOptionsService.applyConfig(this.config);
+    }
+
+    undo()
+    {
+        this.themeOptionsService.undo();
+    }
+
+    redo()
+    {
+        this.themeOptionsService.redo();
+    }
+
+    savePreset()
+    {
+        if ( !this.presetName )
+        {
+            return;
+        }
+
+        this.themeOptionsService.savePreset(this.presetName);
+        this.presetName = '';
+    }
+
+    applyPreset(preset: FuseThemePreset)
+    {
+        this.themeOptionsService.applyPreset(preset);
+    }
+
+    removePreset(preset: FuseThemePreset)
+    {
+        this.themeOptionsService.removePreset(preset);
+    }
+
+    exportPreset(preset: FuseThemePreset)
+    {
+        // Download the preset as a JSON file
+        const blob = new Blob([this.themeOptionsService.exportPreset(preset)], {type: 'application/json'});
+        const link = this.renderer.createElement('a');
+
+        link.href = URL.createObjectURL(blob);
+        link.download = FuseUtils.handleize(preset.name) + '.json';
+
+        // Firefox and Safari only download from the attached links
+        this.renderer.appendChild(document.body, link);
+        link.click();
+        this.renderer.removeChild(document.body, link);
+
+        // Give the browser time to start the download before revoking the url
+        setTimeout(() => {
+            URL.revokeObjectURL(link.href);
+        });
+    }
+
+    importPreset(event)
+    {
+        const file = event.target.files[0];
+
+        if ( !file )
+        {
+            return;
+        }
+
+        const reader = new FileReader();
+
+        reader.onload = () => {
+            try
+            {
+                this.themeOptionsService.importPreset(reader.result);
+                this.importError = '';
+            }
+            catch ( e )
+            {
+                this.importError = e.message;
+            }
+        };
+
+        reader.readAsText(file);
+
+        // Reset the input so the same file can be imported again
+        event.target.value = '';
     }
 
     closeBar()
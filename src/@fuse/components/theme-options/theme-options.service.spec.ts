@@ -0,0 +1,151 @@
+import { ActivatedRouteSnapshot, DefaultUrlSerializer, PRIMARY_OUTLET, ResolveEnd, Router, RouterStateSnapshot } from '@angular/router';
+import { Platform } from '@angular/cdk/platform';
+import { Subject } from 'rxjs/Subject';
+
+import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseConfig, FusePartialConfig } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
+import { FuseMemoryStorage } from '@fuse/testing/memory-storage';
+import { FuseThemeOptionsService } from './theme-options.service';
+
+describe('FuseThemeOptionsService', () => {
+    let fuseStorage: FuseMemoryStorage;
+    let routerEvents: Subject<any>;
+    let fuseConfigService: FuseConfigService;
+    let service: FuseThemeOptionsService;
+
+    const config: FuseConfig = {
+        layout          : {
+            navigation        : 'left',
+            navigationFolded  : false,
+            navigationCollapse: 'accordion',
+            toolbar           : 'below',
+            footer            : 'below',
+            mode              : 'fullwidth'
+        },
+        colorClasses    : {
+            toolbar: 'mat-white-500-bg',
+            navbar : 'mat-fuse-dark-700-bg',
+            footer : 'mat-fuse-dark-900-bg'
+        },
+        customScrollbars: true,
+        routerAnimation : 'fadeIn'
+    };
+
+    /**
+     * Resolve a route with the given 'fuseConfig' data
+     */
+    function resolve(fuseConfig: FusePartialConfig): void
+    {
+        const root: Partial<ActivatedRouteSnapshot> = {
+            data    : {fuseConfig},
+            outlet  : PRIMARY_OUTLET,
+            children: []
+        };
+
+        const state: Partial<RouterStateSnapshot> = {
+            root: root as ActivatedRouteSnapshot
+        };
+
+        routerEvents.next(new ResolveEnd(1, '/login', '/login', state as RouterStateSnapshot));
+    }
+
+    /**
+     * Apply the current config with the given
+     * changes like the theme options panel does
+     */
+    function applyChanges(changes: FusePartialConfig): void
+    {
+        service.applyConfig(FuseUtils.mergeDeep(fuseConfigService.config, changes));
+    }
+
+    beforeEach(() => {
+        const urlSerializer = new DefaultUrlSerializer();
+
+        const router: Partial<Router> = {
+            events  : routerEvents = new Subject(),
+            parseUrl: (url) => urlSerializer.parse(url)
+        };
+
+        const platform: Partial<Platform> = {
+            ANDROID: false,
+            IOS    : false
+        };
+
+        fuseStorage = new FuseMemoryStorage();
+        fuseConfigService = new FuseConfigService(router as Router, platform as Platform, fuseStorage, FuseUtils.cloneDeep(config), null, null);
+        service = new FuseThemeOptionsService(fuseConfigService, fuseStorage);
+    });
+
+    describe('applyConfig', () => {
+
+        it('should only save the changed values', () => {
+            resolve({layout: {toolbar: 'none'}});
+            applyChanges({layout: {navigation: 'top'}});
+
+            expect(fuseConfigService.config.layout.navigation).toBe('top');
+            expect(fuseStorage.values.config.config).toEqual({layout: {navigation: 'top'}});
+        });
+
+        it('should not record anything if nothing changed', () => {
+            applyChanges({});
+
+            expect(service.canUndo).toBe(false);
+            expect(fuseStorage.values.config).toBeUndefined();
+        });
+    });
+
+    describe('history', () => {
+
+        it('should undo and redo the changes', () => {
+            applyChanges({layout: {navigation: 'top'}});
+            applyChanges({colorClasses: {toolbar: 'mat-fuse-dark-500-bg'}});
+
+            service.undo();
+            expect(fuseConfigService.config.colorClasses.toolbar).toBe('mat-white-500-bg');
+            expect(fuseConfigService.config.layout.navigation).toBe('top');
+
+            service.undo();
+            expect(fuseConfigService.config.layout.navigation).toBe('left');
+            expect(service.canUndo).toBe(false);
+
+            service.redo();
+            expect(fuseConfigService.config.layout.navigation).toBe('top');
+            expect(fuseConfigService.config.colorClasses.toolbar).toBe('mat-white-500-bg');
+            expect(service.canRedo).toBe(true);
+        });
+
+        it('should undo to the saved values rather than the route config', () => {
+            resolve({layout: {navigation: 'none'}});
+            applyChanges({layout: {navigation: 'top'}});
+
+            service.undo();
+
+            expect(fuseConfigService.config.layout.navigation).toBe('left');
+        });
+
+        it('should drop the undone changes on a new change', () => {
+            applyChanges({layout: {navigation: 'top'}});
+            service.undo();
+            applyChanges({layout: {toolbar: 'above'}});
+
+            expect(service.canRedo).toBe(false);
+        });
+    });
+
+    describe('presets', () => {
+
+        it('should save the user\'s theme without the route config', () => {
+            resolve({layout: {navigation: 'none'}});
+            applyChanges({layout: {toolbar: 'above'}});
+
+            service.savePreset('Mine');
+
+            const preset = service.onPresetsChanged.getValue()[0];
+
+            expect(preset.name).toBe('Mine');
+            expect(preset.config.layout.navigation).toBe('left');
+            expect(preset.config.layout.toolbar).toBe('above');
+        });
+    });
+});
@@ -0,0 +1,320 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+
+import { FuseConfigService } from '@fuse/services/config.service';
+import { validateFuseConfig } from '@fuse/services/config-validator';
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FusePartialConfig } from '@fuse/types';
+import { FuseUtils } from '@fuse/utils';
+
+export interface FuseThemePreset
+{
+    name: string;
+    config: FusePartialConfig;
+}
+
+// A change made from the theme options, along with
+// the saved values it replaced so it can be undone
+interface FuseThemeChange
+{
+    undo: FusePartialConfig;
+    redo: FusePartialConfig;
+}
+
+// Define the maximum number of the history entries
+const HISTORY_LIMIT = 50;
+
+// Define the storage key of the presets
+const PRESETS_STORAGE_KEY = 'theme-presets';
+
+@Injectable()
+export class FuseThemeOptionsService
+{
+    onPresetsChanged: BehaviorSubject<FuseThemePreset[]>;
+
+    // Private
+    private _history: FuseThemeChange[];
+    private _historyIndex: number;
+
+    /**
+     * Constructor
+     *
+     * @param {FuseConfigService} fuseConfigService
+     * @param {FuseStorage} fuseStorage
+     */
+    constructor(
+        private fuseConfigService: FuseConfigService,
+        private fuseStorage: FuseStorage
+    )
+    {
+        // Set the defaults
+        this._history = [];
+        this._historyIndex = 0;
+        this.onPresetsChanged = new BehaviorSubject([]);
+
+        // Load the presets
+        this.fuseStorage.get(PRESETS_STORAGE_KEY)
+            .subscribe((presets) => {
+                if ( Array.isArray(presets) )
+                {
+                    this.onPresetsChanged.next(presets);
+                }
+            });
+    }
+
+    /**
+     * Can undo
+     *
+     * @returns {boolean}
+     */
+    get canUndo(): boolean
+    {
+        return this._historyIndex > 0;
+    }
+
+    /**
+     * Can redo
+     *
+     * @returns {boolean}
+     */
+    get canRedo(): boolean
+    {
+        return this._historyIndex < this._history.length;
+    }
+
+    /**
+     * Apply and save the values of the given theme config that differ
+     * from the current config, and add the change to the history
+     *
+     * @param {FusePartialConfig} config
+     */
+    applyConfig(config: FusePartialConfig): void
+    {
+        const changes = this._diffConfig(this._getThemeConfig(this.fuseConfigService.config), this._getThemeConfig(config));
+
+        if ( !changes )
+        {
+            return;
+        }
+
+        // Undoing restores the saved values rather than the current
+        // ones, which may come from the route or the query params
+        const savedConfig = FuseUtils.mergeDeep(this.fuseConfigService.defaultConfig, this.fuseConfigService.savedConfig);
+
+        // Drop the redo entries and record the change
+        this._history.splice(this._historyIndex);
+        this._history.push({
+            undo: this._pickConfig(savedConfig, changes),
+            redo: changes
+        });
+
+        if ( this._history.length > HISTORY_LIMIT )
+        {
+            this._history.shift();
+        }
+
+        this._historyIndex = this._history.length;
+
+        this.fuseConfigService.setConfig(changes, {persist: true});
+    }
+
+    /**
+     * Undo the last change
+     */
+    undo(): void
+    {
+        if ( !this.canUndo )
+        {
+            return;
+        }
+
+        this._historyIndex--;
+        this.fuseConfigService.setConfig(this._history[this._historyIndex].undo, {persist: true});
+    }
+
+    /**
+     * Redo the last undone change
+     */
+    redo(): void
+    {
+        if ( !this.canRedo )
+        {
+            return;
+        }
+
+        this.fuseConfigService.setConfig(this._history[this._historyIndex].redo, {persist: true});
+        this._historyIndex++;
+    }
+
+    /**
+     * Save the user's theme config as a preset with the given name,
+     * overwrites the preset if one with the same name exists
+     *
+     * @param {string} name
+     */
+    savePreset(name: string): void
+    {
+        // The current config may come from the route or the query params
+        const savedConfig = FuseUtils.mergeDeep(this.fuseConfigService.defaultConfig, this.fuseConfigService.savedConfig);
+
+        const preset: FuseThemePreset = {
+            name,
+            config: this._getThemeConfig(savedConfig)
+        };
+
+        const presets = this.onPresetsChanged.getValue().filter((item) => item.name !== name);
+
+        this._setPresets([...presets, preset]);
+    }
+
+    /**
+     * Apply the given preset
+     *
+     * @param {FuseThemePreset} preset
+     */
+    applyPreset(preset: FuseThemePreset): void
+    {
+        this.applyConfig(preset.config);
+    }
+
+    /**
+     * Remove the given preset
+     *
+     * @param {FuseThemePreset} preset
+     */
+    removePreset(preset: FuseThemePreset): void
+    {
+        this._setPresets(this.onPresetsChanged.getValue().filter((item) => item.name !== preset.name));
+    }
+
+    /**
+     * Export the given preset as JSON
+     *
+     * @param {FuseThemePreset} preset
+     * @returns {string}
+     */
+    exportPreset(preset: FuseThemePreset): string
+    {
+        return JSON.stringify(preset, null, 4);
+    }
+
+    /**
+     * Import a preset from the given JSON, throws if
+     * the JSON is not a valid preset
+     *
+     * @param {string} json
+     * @returns {FuseThemePreset}
+     */
+    importPreset(json: string): FuseThemePreset
+    {
+        const preset = JSON.parse(json);
+
+        if ( !preset || typeof preset.name !== 'string' || !preset.name || !FuseUtils.isPlainObject(preset.config) )
+        {
+            throw new Error('The preset must have a name and a config.');
+        }
+
+        const result = validateFuseConfig(preset.config, this.fuseConfigService.defaultConfig);
+
+        if ( result.errors.length )
+        {
+            throw new Error(result.errors.map((error) => error.message).join(' '));
+        }
+
+        const importedPreset: FuseThemePreset = {
+            name  : preset.name,
+            config: this._getThemeConfig(preset.config)
+        };
+
+        const presets = this.onPresetsChanged.getValue().filter((item) => item.name !== importedPreset.name);
+
+        this._setPresets([...presets, importedPreset]);
+
+        return importedPreset;
+    }
+
+    /**
+     * Pick the parts of the given config
+     * that can be changed from the theme options
+     *
+     * @param {FusePartialConfig} config
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _getThemeConfig(config: FusePartialConfig): FusePartialConfig
+    {
+        return FuseUtils.cloneDeep({
+            layout         : config.layout,
+            colorClasses   : config.colorClasses,
+            routerAnimation: config.routerAnimation
+        });
+    }
+
+    /**
+     * Get the values of the target config that differ from
+     * the source config, or null if there is no difference
+     *
+     * @param source
+     * @param target
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _diffConfig(source, target): FusePartialConfig
+    {
+        let diff = null;
+
+        Object.keys(target).forEach((key) => {
+            const value = target[key];
+
+            if ( value === undefined )
+            {
+                return;
+            }
+
+            const valueDiff = FuseUtils.isPlainObject(value) && FuseUtils.isPlainObject(source[key]) ?
+                this._diffConfig(source[key], value) :
+                (JSON.stringify(value) !== JSON.stringify(source[key]) ? value : null);
+
+            if ( valueDiff !== null )
+            {
+                diff = diff || {};
+                diff[key] = valueDiff;
+            }
+        });
+
+        return diff;
+    }
+
+    /**
+     * Pick the values of the given config at the keys of the given shape
+     *
+     * @param config
+     * @param shape
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _pickConfig(config, shape): FusePartialConfig
+    {
+        const picked = {};
+
+        Object.keys(shape).forEach((key) => {
+            picked[key] = FuseUtils.isPlainObject(shape[key]) && FuseUtils.isPlainObject(config[key]) ?
+                this._pickConfig(config[key], shape[key]) :
+                FuseUtils.cloneDeep(config[key]);
+        });
+
+        return picked;
+    }
+
+    /**
+     * Set and save the presets
+     *
+     * @param {FuseThemePreset[]} presets
+     * @private
+     */
+    private _setPresets(presets: FuseThemePreset[]): void
+    {
+        this.fuseStorage.set(PRESETS_STORAGE_KEY, presets).subscribe();
+        this.onPresetsChanged.next(presets);
+    }
+}
@@ -3,20 +3,23 @@ import { NgModule } from '@angular/core';
 import { FuseIfOnDomDirective } from '@fuse/directives/fuse-if-on-dom/fuse-if-on-dom.directive';
 import { FusePerfectScrollbarDirective } from '@fuse/directives/fuse-perfect-scrollbar/fuse-perfect-scrollbar.directive';
 import { FuseMatSidenavHelperDirective, FuseMatSidenavTogglerDirective } from '@fuse/directives/fuse-mat-sidenav/fuse-mat-sidenav.directive';
+import { FuseReorderDirective } from '@fuse/directives/fuse-reorder/fuse-reorder.directive';
 
 @NgModule({
     declarations: [
         FuseIfOnDomDirective,
         FuseMatSidenavHelperDirective,
         FuseMatSidenavTogglerDirective,
-        FusePerfectScrollbarDirective
+        FusePerfectScrollbarDirective,
+        FuseReorderDirective
     ],
     imports     : [],
     exports     : [
         FuseIfOnDomDirective,
         FuseMatSidenavHelperDirective,
         FuseMatSidenavTogglerDirective,
-        FusePerfectScrollbarDirective
+        FusePerfectScrollbarDirective,
+        FuseReorderDirective
     ]
 })
 export class FuseDirectivesModule
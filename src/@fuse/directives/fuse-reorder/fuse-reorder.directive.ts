@@ -0,0 +1,141 @@
+import {
+    ContentChildren, Directive, ElementRef, EventEmitter, HostListener, Input, OnDestroy, OnInit, Output, QueryList, Renderer2, Self
+} from '@angular/core';
+import { DraggableDirective, DroppableDirective } from '@swimlane/ngx-dnd';
+import { Subscription } from 'rxjs/Subscription';
+
+import { FuseReorderEvent } from '@fuse/types';
+
+/**
+ * Reorder the draggable items of an ngxDroppable list by dragging them
+ * or with Alt and the arrow keys. The list itself isn't changed, the
+ * move is emitted so the items can be re-rendered in their new order.
+ */
+@Directive({
+    selector: '[fuseReorder]'
+})
+export class FuseReorderDirective implements OnInit, OnDestroy
+{
+    @Input('fuseReorder') orientation: string;
+    @Output() reorder = new EventEmitter<FuseReorderEvent>();
+    @ContentChildren(DraggableDirective, {descendants: true}) draggables: QueryList<DraggableDirective>;
+
+    onDragStarted: Subscription;
+    onDropped: Subscription;
+
+    // Private
+    private _dragIndex: number;
+    private _dragNextSibling: Node;
+
+    /**
+     * Constructor
+     *
+     * @param {DroppableDirective} droppable
+     * @param {ElementRef} elementRef
+     * @param {Renderer2} renderer
+     */
+    constructor(
+        @Self() private droppable: DroppableDirective,
+        private elementRef: ElementRef,
+        private renderer: Renderer2
+    )
+    {
+    }
+
+    /**
+     * On init
+     */
+    ngOnInit(): void
+    {
+        this.onDragStarted =
+            this.droppable.drag
+                .subscribe((event) => {
+                    this._dragIndex = this._getElements().indexOf(event.el);
+                    this._dragNextSibling = event.el.nextSibling;
+                });
+
+        this.onDropped =
+            this.droppable.drop
+                .subscribe((event) => {
+                    const toIndex = this._getElements().indexOf(event.el);
+
+                    // Put the dropped element back so the view
+                    // stays in sync with the rendered items
+                    this.renderer.insertBefore(this.elementRef.nativeElement, event.el, this._dragNextSibling);
+
+                    this.reorder.emit({
+                        item     : event.value,
+                        fromIndex: this._dragIndex,
+                        toIndex  : toIndex
+                    });
+                });
+    }
+
+    /**
+     * On destroy
+     */
+    ngOnDestroy(): void
+    {
+        this.onDragStarted.unsubscribe();
+        this.onDropped.unsubscribe();
+    }
+
+    /**
+     * Move the focused item with Alt and the arrow keys
+     *
+     * @param {KeyboardEvent} event
+     */
+    @HostListener('keydown', ['$event'])
+    onKeydown(event: KeyboardEvent): void
+    {
+        const keys = this.orientation === 'horizontal' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowUp', 'ArrowDown'];
+
+        if ( !event.altKey || keys.indexOf(event.key) === -1 )
+        {
+            return;
+        }
+
+        const target = event.target as HTMLElement;
+        const draggable = this.draggables.find((item) => item.element.contains(target));
+
+        // The items that can't be dragged can't be moved with the keys either
+        if ( !draggable || !draggable.moves(this.elementRef.nativeElement, target, null) )
+        {
+            return;
+        }
+
+        event.preventDefault();
+        event.stopPropagation();
+
+        const elements = this._getElements();
+        const fromIndex = elements.indexOf(draggable.element);
+        const toIndex = fromIndex + (event.key === keys[0] ? -1 : 1);
+
+        if ( toIndex < 0 || toIndex >= elements.length )
+        {
+            return;
+        }
+
+        this.reorder.emit({
+            item     : draggable.model,
+            fromIndex: fromIndex,
+            toIndex  : toIndex
+        });
+
+        // The moved element loses the focus once it's re-rendered
+        setTimeout(() => {
+            target.focus();
+        });
+    }
+
+    /**
+     * Get the elements of the items
+     *
+     * @returns {HTMLElement[]}
+     * @private
+     */
+    private _getElements(): HTMLElement[]
+    {
+        return Array.from(this.elementRef.nativeElement.children);
+    }
+}
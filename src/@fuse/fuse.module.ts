@@ -1,25 +1,49 @@
 import { ModuleWithProviders, NgModule, Optional, SkipSelf } from '@angular/core';
+import { CookieService } from 'ngx-cookie-service';
 
-import { FUSE_CONFIG, FuseConfigService } from '@fuse/services/config.service';
+import { FuseConfig } from '@fuse/types';
+import { FUSE_CONFIG, FUSE_CONFIG_SECTIONS, FuseConfigService } from '@fuse/services/config.service';
+import { FuseCommandPaletteService } from '@fuse/components/command-palette/command-palette.service';
 import { FuseCopierService } from '@fuse/services/copier.service';
 import { FuseMatchMediaService } from '@fuse/services/match-media.service';
 import { FuseMatSidenavHelperService } from '@fuse/directives/fuse-mat-sidenav/fuse-mat-sidenav.service';
 import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseNavigationSearchProvider } from '@fuse/components/search-bar/navigation-search.provider';
+import { FusePermissionProvider, FusePermissionService } from '@fuse/services/permission.service';
+import { FuseSearchService } from '@fuse/components/search-bar/search.service';
+import { FuseShortcutsService } from '@fuse/components/shortcuts/shortcuts.service';
 import { FuseSidebarService } from '@fuse/components/sidebar/sidebar.service';
 import { FuseSplashScreenService } from '@fuse/services/splash-screen.service';
+import { FuseLocalStorage, FuseStorage } from '@fuse/services/storage.service';
+import { FuseThemeOptionsService } from '@fuse/components/theme-options/theme-options.service';
 import { FuseTranslationLoaderService } from '@fuse/services/translation-loader.service';
 
 @NgModule({
     entryComponents: [],
     providers      : [
+        FuseCommandPaletteService,
         FuseConfigService,
         FuseCopierService,
         FuseMatchMediaService,
         FuseMatSidenavHelperService,
         FuseNavigationService,
+        FuseNavigationSearchProvider,
+        FusePermissionService,
+        FuseSearchService,
+        FuseShortcutsService,
         FuseSidebarService,
         FuseSplashScreenService,
-        FuseTranslationLoaderService
+        FuseThemeOptionsService,
+        FuseTranslationLoaderService,
+        CookieService,
+        {
+            provide : FuseStorage,
+            useClass: FuseLocalStorage
+        },
+        {
+            provide    : FusePermissionProvider,
+            useExisting: FusePermissionService
+        }
     ]
 })
 export class FuseModule
@@ -32,7 +56,15 @@ export class FuseModule
         }
     }
 
-    static forRoot(config): ModuleWithProviders
+    /**
+     * Provide the config, list the top level sections the app adds
+     * to the config so they aren't reported as unknown keys
+     *
+     * @param {FuseConfig<T>} config
+     * @param {string[]} sections
+     * @returns {ModuleWithProviders}
+     */
+    static forRoot<T = {}>(config: FuseConfig<T>, sections: (keyof T)[] = []): ModuleWithProviders
     {
         return {
             ngModule : FuseModule,
@@ -40,6 +72,10 @@ export class FuseModule
                 {
                     provide : FUSE_CONFIG,
                     useValue: config
+                },
+                {
+                    provide : FUSE_CONFIG_SECTIONS,
+                    useValue: sections
                 }
             ]
         };
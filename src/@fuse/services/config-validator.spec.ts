@@ -0,0 +1,90 @@
+import { validateFuseConfig } from './config-validator';
+
+describe('validateFuseConfig', () => {
+
+    const knownConfig = {
+        layout      : {
+            navigation: 'left',
+            toolbar   : 'below'
+        },
+        colorClasses: {
+            toolbar: 'mat-white-500-bg'
+        },
+        invoices    : {
+            currency: 'USD'
+        }
+    };
+
+    it('should accept a valid config', () => {
+        const result = validateFuseConfig({layout: {navigation: 'top'}, customScrollbars: false}, knownConfig);
+
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('should report the values that are not allowed', () => {
+        const result = validateFuseConfig({layout: {navigation: 'bottom'}}, knownConfig);
+
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].path).toBe('layout.navigation');
+    });
+
+    it('should report the values of the wrong type', () => {
+        const result = validateFuseConfig({customScrollbars: 'yes', colorClasses: {navbar: 42}}, knownConfig);
+
+        expect(result.errors.map((error) => error.path)).toEqual(['customScrollbars', 'colorClasses.navbar']);
+    });
+
+    it('should report the sections that are not objects', () => {
+        const result = validateFuseConfig({layout: 'boxed'}, knownConfig);
+
+        expect(result.errors.map((error) => error.path)).toEqual(['layout']);
+    });
+
+    it('should report the config that is not an object', () => {
+        expect(validateFuseConfig(null, knownConfig).errors.map((error) => error.path)).toEqual(['']);
+        expect(validateFuseConfig('boxed', knownConfig).errors.map((error) => error.path)).toEqual(['']);
+        expect(validateFuseConfig([], knownConfig).errors.map((error) => error.path)).toEqual(['']);
+    });
+
+    it('should report the app sections that are not objects', () => {
+        const result = validateFuseConfig({invoices: 'USD'}, knownConfig);
+
+        expect(result.errors.map((error) => error.path)).toEqual(['invoices']);
+    });
+
+    it('should warn about the unknown keys of the Fuse sections', () => {
+        const result = validateFuseConfig({layout: {navigationFoldd: true}}, knownConfig);
+
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([`Unknown config key 'layout.navigationFoldd'.`]);
+    });
+
+    it('should check the app sections against the known config', () => {
+        const result = validateFuseConfig({invoices: {currency: 'EUR', curency: 'EUR'}}, knownConfig);
+
+        expect(result.warnings).toEqual([`Unknown config key 'invoices.curency'.`]);
+    });
+
+    it('should warn about the unknown top level keys', () => {
+        const result = validateFuseConfig({invoicez: {}}, knownConfig);
+
+        expect(result.warnings).toEqual([`Unknown config key 'invoicez'.`]);
+    });
+
+    describe('without a known config', () => {
+
+        it('should warn about the top level keys that are not Fuse or app sections', () => {
+            const result = validateFuseConfig({layout: {navigation: 'top'}, invoices: {}, invoicez: {}}, null, ['invoices']);
+
+            expect(result.warnings).toEqual([`Unknown config key 'invoicez'.`]);
+        });
+
+        it('should not check the keys of the app sections', () => {
+            const result = validateFuseConfig({invoices: {currency: 'EUR'}}, null, ['invoices']);
+
+            expect(result.errors).toEqual([]);
+            expect(result.warnings).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { FuseUtils } from '@fuse/utils';
+
+export interface FuseConfigValidationError
+{
+    path: string;
+    message: string;
+}
+
+export interface FuseConfigValidationResult
+{
+    errors: FuseConfigValidationError[];
+    warnings: string[];
+}
+
+// Define the rules of the known config keys. A rule is either
+// the expected type or the list of the allowed values.
+const CONFIG_RULES: { [path: string]: string | any[] } = {
+    'layout'                   : 'object',
+    'layout.navigation'        : ['left', 'right', 'top', 'none'],
+    'layout.navigationFolded'  : 'boolean',
+    'layout.navigationCollapse': ['accordion', 'independent'],
+    'layout.toolbar'           : ['above', 'below', 'none'],
+    'layout.footer'            : ['above', 'below', 'none'],
+    'layout.mode'              : ['boxed', 'fullwidth'],
+    'colorClasses'             : 'object',
+    'colorClasses.toolbar'     : 'string',
+    'colorClasses.navbar'      : 'string',
+    'colorClasses.footer'      : 'string',
+    'customScrollbars'         : 'boolean',
+    'routerAnimation'          : ['fadeIn', 'slideUp', 'slideDown', 'slideRight', 'slideLeft', 'none']
+};
+
+/**
+ * Validate the given config against the known config keys
+ *
+ * Keys that don't have a rule are checked against the given known config
+ * (usually the default config of the app) so the apps can add their own
+ * sections. If there is no known config, the top level keys other than the
+ * Fuse's own ones and the given app sections are reported.
+ *
+ * @param config
+ * @param knownConfig
+ * @param {string[]} sections
+ * @returns {FuseConfigValidationResult}
+ */
+export function validateFuseConfig(config: any, knownConfig?: any, sections: string[] = []): FuseConfigValidationResult
+{
+    const result: FuseConfigValidationResult = {
+        errors  : [],
+        warnings: []
+    };
+
+    if ( !FuseUtils.isPlainObject(config) )
+    {
+        result.errors.push({
+            path   : '',
+            message: 'The config must be an object.'
+        });
+
+        return result;
+    }
+
+    // The app sections are known, but there is nothing to check their keys against
+    const knownRoot = knownConfig || sections.reduce((known, section) => ({...known, [section]: null}), {});
+
+    _validateObject(config, '', knownRoot, result);
+
+    return result;
+}
+
+/**
+ * Validate the keys of the given object
+ *
+ * @param obj
+ * @param {string} parentPath
+ * @param knownObj
+ * @param {FuseConfigValidationResult} result
+ * @private
+ */
+function _validateObject(obj: any, parentPath: string, knownObj: any, result: FuseConfigValidationResult): void
+{
+    for ( const key of Object.keys(obj) )
+    {
+        const path = parentPath ? parentPath + '.' + key : key;
+        const value = obj[key];
+        const rule = CONFIG_RULES[path];
+        const knownValue = knownObj ? knownObj[key] : undefined;
+
+        // Unknown key
+        if ( !rule )
+        {
+            if ( knownObj ? !knownObj.hasOwnProperty(key) : CONFIG_RULES[parentPath] === 'object' )
+            {
+                result.warnings.push(`Unknown config key '${path}'.`);
+                continue;
+            }
+
+            // Validate the app's own sections against the known config
+            if ( FuseUtils.isPlainObject(knownValue) )
+            {
+                if ( !FuseUtils.isPlainObject(value) )
+                {
+                    result.errors.push({
+                        path,
+                        message: `The config key '${path}' must be an object.`
+                    });
+
+                    continue;
+                }
+
+                _validateObject(value, path, knownValue, result);
+            }
+
+            continue;
+        }
+
+        // Allowed values
+        if ( Array.isArray(rule) )
+        {
+            if ( rule.indexOf(value) === -1 )
+            {
+                result.errors.push({
+                    path,
+                    message: `Invalid value '${value}' for the config key '${path}'. Allowed values are: ${rule.join(', ')}.`
+                });
+            }
+
+            continue;
+        }
+
+        // Objects
+        if ( rule === 'object' )
+        {
+            if ( !FuseUtils.isPlainObject(value) )
+            {
+                result.errors.push({
+                    path,
+                    message: `The config key '${path}' must be an object.`
+                });
+
+                continue;
+            }
+
+            _validateObject(value, path, knownValue, result);
+
+            continue;
+        }
+
+        // Types
+        if ( typeof value !== rule )
+        {
+            result.errors.push({
+                path,
+                message: `The config key '${path}' must be a ${rule}.`
+            });
+        }
+    }
+}
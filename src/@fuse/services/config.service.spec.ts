@@ -0,0 +1,278 @@
+import { ActivatedRouteSnapshot, DefaultUrlSerializer, PRIMARY_OUTLET, ResolveEnd, Router, RouterStateSnapshot } from '@angular/router';
+import { Platform } from '@angular/cdk/platform';
+import { Subject } from 'rxjs/Subject';
+
+import { FuseConfig, FusePartialConfig } from '@fuse/types';
+import { FuseMemoryStorage } from '@fuse/testing/memory-storage';
+import { FUSE_CONFIG_VERSION, FuseConfigService } from './config.service';
+
+describe('FuseConfigService', () => {
+    let fuseStorage: FuseMemoryStorage;
+    let routerEvents: Subject<any>;
+
+    const config: FuseConfig = {
+        layout          : {
+            navigation        : 'left',
+            navigationFolded  : false,
+            navigationCollapse: 'accordion',
+            toolbar           : 'below',
+            footer            : 'below',
+            mode              : 'fullwidth'
+        },
+        colorClasses    : {
+            toolbar: 'mat-white-500-bg',
+            navbar : 'mat-fuse-dark-700-bg',
+            footer : 'mat-fuse-dark-900-bg'
+        },
+        customScrollbars: true,
+        routerAnimation : 'fadeIn'
+    };
+
+    function createService(): FuseConfigService
+    {
+        const urlSerializer = new DefaultUrlSerializer();
+
+        const router: Partial<Router> = {
+            events  : routerEvents,
+            parseUrl: (url) => urlSerializer.parse(url)
+        };
+
+        const platform: Partial<Platform> = {
+            ANDROID: false,
+            IOS    : false
+        };
+
+        return new FuseConfigService(router as Router, platform as Platform, fuseStorage, config, null, null);
+    }
+
+    /**
+     * Resolve the given url with the given
+     * 'fuseConfig' data from the root route down
+     */
+    function resolve(url: string, fuseConfigs: FusePartialConfig[] = []): void
+    {
+        const root = fuseConfigs.reduceRight((child: ActivatedRouteSnapshot, fuseConfig) => {
+            const route: Partial<ActivatedRouteSnapshot> = {
+                data    : {fuseConfig},
+                outlet  : PRIMARY_OUTLET,
+                children: child ? [child] : []
+            };
+
+            return route as ActivatedRouteSnapshot;
+        }, null);
+
+        const state: Partial<RouterStateSnapshot> = {
+            root: root || {data: {}, outlet: PRIMARY_OUTLET, children: []} as ActivatedRouteSnapshot
+        };
+
+        routerEvents.next(new ResolveEnd(1, url, url, state as RouterStateSnapshot));
+    }
+
+    beforeEach(() => {
+        fuseStorage = new FuseMemoryStorage();
+        routerEvents = new Subject();
+
+        spyOn(console, 'warn');
+        spyOn(console, 'error');
+    });
+
+    describe('loading the saved config', () => {
+
+        it('should use the default config if nothing is saved', () => {
+            expect(createService().config).toEqual(config);
+        });
+
+        it('should apply the saved config of the current version', () => {
+            fuseStorage.values.config = {version: FUSE_CONFIG_VERSION, config: {layout: {navigation: 'top'}}};
+
+            const service = createService();
+
+            expect(service.config.layout.navigation).toBe('top');
+            expect(service.config.layout.toolbar).toBe('below');
+        });
+
+        it('should migrate the saved config that has no version', () => {
+            fuseStorage.values.config = {config: {colorClasses: {navbar: 'mat-white-500-bg'}}};
+
+            expect(createService().config.colorClasses.navbar).toBe('mat-white-500-bg');
+        });
+
+        it('should ignore the saved config of a newer version', () => {
+            fuseStorage.values.config = {version: FUSE_CONFIG_VERSION + 1, config: {layout: {navigation: 'top'}}};
+
+            expect(createService().config.layout.navigation).toBe('left');
+        });
+
+        it('should leave out the invalid values of the saved config', () => {
+            fuseStorage.values.config = {version: FUSE_CONFIG_VERSION, config: {layout: {navigation: 'bottom', toolbar: 'above'}}};
+
+            const service = createService();
+
+            expect(service.config.layout.navigation).toBe('left');
+            expect(service.config.layout.toolbar).toBe('above');
+        });
+
+        it('should apply the saved config that is loaded late under the route config', () => {
+            const storedConfig = new Subject<any>();
+
+            spyOn(fuseStorage, 'get').and.returnValue(storedConfig);
+
+            const service = createService();
+
+            resolve('/login', [{layout: {navigation: 'none'}}]);
+            storedConfig.next({version: FUSE_CONFIG_VERSION, config: {layout: {navigation: 'top', toolbar: 'above'}}});
+
+            expect(service.config.layout.navigation).toBe('none');
+            expect(service.config.layout.toolbar).toBe('above');
+        });
+    });
+
+    describe('route config', () => {
+
+        it('should apply the config of the resolved route', () => {
+            const service = createService();
+
+            resolve('/login', [{layout: {navigation: 'none', toolbar: 'none'}}]);
+
+            expect(service.config.layout.navigation).toBe('none');
+            expect(service.config.layout.toolbar).toBe('none');
+        });
+
+        it('should let the child routes override their parents', () => {
+            const service = createService();
+
+            resolve('/apps/mail', [{layout: {navigation: 'top', toolbar: 'none'}}, {layout: {toolbar: 'above'}}]);
+
+            expect(service.config.layout.navigation).toBe('top');
+            expect(service.config.layout.toolbar).toBe('above');
+        });
+
+        it('should restore the layout on the next route', () => {
+            const service = createService();
+
+            resolve('/login', [{layout: {navigation: 'none'}, colorClasses: {toolbar: 'mat-fuse-dark-500-bg'}}]);
+            resolve('/apps/mail');
+
+            expect(service.config.layout.navigation).toBe('left');
+            expect(service.config.colorClasses.toolbar).toBe('mat-white-500-bg');
+        });
+
+        it('should restore the saved config on the next route', () => {
+            fuseStorage.values.config = {version: FUSE_CONFIG_VERSION, config: {layout: {navigation: 'top'}}};
+
+            const service = createService();
+
+            resolve('/login', [{layout: {navigation: 'none'}}]);
+            resolve('/apps/mail');
+
+            expect(service.config.layout.navigation).toBe('top');
+        });
+
+        it('should not save the route config as the user\'s default', () => {
+            const service = createService();
+
+            resolve('/login', [{layout: {toolbar: 'none'}}]);
+            service.setConfig({layout: {navigation: 'top', toolbar: 'none'}}, {persist: true});
+
+            expect(fuseStorage.values.config.config).toEqual({layout: {navigation: 'top'}});
+        });
+
+        it('should leave out the invalid values of the route config', () => {
+            const service = createService();
+
+            resolve('/login', [{layout: {navigation: 'bottom', toolbar: 'none'}} as any]);
+
+            expect(service.config.layout.navigation).toBe('left');
+            expect(service.config.layout.toolbar).toBe('none');
+        });
+    });
+
+    describe('query params overrides', () => {
+
+        it('should apply the whitelisted query params', () => {
+            const service = createService();
+
+            resolve('/apps/mail?fuse.layout.navigation=none&fuse.layout.navigationFolded=true');
+
+            expect(service.config.layout.navigation).toBe('none');
+            expect(service.config.layout.navigationFolded).toBe(true);
+        });
+
+        it('should ignore the query params that are not whitelisted', () => {
+            const service = createService();
+
+            resolve('/apps/mail?fuse.colorClasses.toolbar=mat-red-bg&layout.toolbar=none');
+
+            expect(service.config.colorClasses.toolbar).toBe('mat-white-500-bg');
+            expect(service.config.layout.toolbar).toBe('below');
+        });
+
+        it('should leave out the invalid values of the query params', () => {
+            const service = createService();
+
+            resolve('/apps/mail?fuse.layout.navigation=bottom');
+
+            expect(service.config.layout.navigation).toBe('left');
+        });
+
+        it('should override the route config and the config set later', () => {
+            const service = createService();
+
+            resolve('/login?fuse.layout.toolbar=above', [{layout: {toolbar: 'none'}}]);
+            service.setConfig({layout: {toolbar: 'below'}});
+
+            expect(service.config.layout.toolbar).toBe('above');
+        });
+
+        it('should drop the overrides on the next navigation', () => {
+            const service = createService();
+
+            resolve('/apps/mail?fuse.layout.toolbar=none');
+            resolve('/apps/mail');
+
+            expect(service.config.layout.toolbar).toBe('below');
+        });
+
+        it('should not save the overrides as the user\'s default', () => {
+            const service = createService();
+
+            resolve('/apps/mail?fuse.layout.toolbar=none');
+            service.setConfig({layout: {navigation: 'top', toolbar: 'none'}}, {persist: true});
+
+            expect(fuseStorage.values.config.config).toEqual({layout: {navigation: 'top'}});
+        });
+    });
+
+    describe('saving the config', () => {
+
+        it('should save the persisted config with the current version', () => {
+            createService().setConfig({layout: {navigation: 'top'}}, {persist: true});
+
+            expect(fuseStorage.values.config).toEqual({version: FUSE_CONFIG_VERSION, config: {layout: {navigation: 'top'}}});
+        });
+
+        it('should ignore the config that is not an object', () => {
+            const service = createService();
+
+            service.setConfig(null);
+
+            expect(service.config).toEqual(config);
+        });
+
+        it('should not save the config that is not persisted', () => {
+            createService().setConfig({layout: {navigation: 'top'}});
+
+            expect(fuseStorage.values.config).toBeUndefined();
+        });
+
+        it('should forget the saved config on reset', () => {
+            const service = createService();
+
+            service.setConfig({layout: {navigation: 'top'}}, {persist: true});
+            service.resetConfig();
+
+            expect(fuseStorage.values.config).toBeUndefined();
+            expect(service.config.layout.navigation).toBe('left');
+        });
+    });
+});
@@ -1,16 +1,25 @@
 import { Inject, Injectable, InjectionToken, Optional } from '@angular/core';
-import { NavigationStart, Router } from '@angular/router';
+import { ActivatedRouteSnapshot, PRIMARY_OUTLET, ResolveEnd, Router } from '@angular/router';
 import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/operator/distinctUntilChanged';
+import 'rxjs/add/operator/map';
 import { Platform } from '@angular/cdk/platform';
 
+import { FuseConfig, FusePartialConfig } from '@fuse/types';
+import { validateFuseConfig } from '@fuse/services/config-validator';
+import { FuseStorage } from '@fuse/services/storage.service';
+import { FuseUtils } from '@fuse/utils';
+
 // Define the default config
-const DEFAULT_CONFIG = {
+const DEFAULT_CONFIG: FuseConfig = {
     layout          : {
-        navigation      : 'left', // 'right', 'left', 'top', 'none'
-        navigationFolded: false, // true, false
-        toolbar         : 'below', // 'above', 'below', 'none'
-        footer          : 'below', // 'above', 'below', 'none'
-        mode            : 'fullwidth' // 'boxed', 'fullwidth'
+        navigation        : 'left', // 'right', 'left', 'top', 'none'
+        navigationFolded  : false, // true, false
+        navigationCollapse: 'accordion', // 'accordion', 'independent'
+        toolbar           : 'below', // 'above', 'below', 'none'
+        footer            : 'below', // 'above', 'below', 'none'
+        mode              : 'fullwidth' // 'boxed', 'fullwidth'
     },
     colorClasses    : {
         toolbar: 'mat-white-500-bg',
@@ -22,27 +31,71 @@ const DEFAULT_CONFIG = {
 };
 
 // Create the injection token for the custom config
-export const FUSE_CONFIG = new InjectionToken('fuseCustomConfig');
+export const FUSE_CONFIG = new InjectionToken<FuseConfig>('fuseCustomConfig');
+
+// Create the injection token for the top level sections the app adds to the
+// config, so they aren't reported as unknown keys when the config is validated
+export const FUSE_CONFIG_SECTIONS = new InjectionToken<string[]>('fuseConfigSections');
+
+// Create the injection token for the config paths that
+// can be overridden with the query params of the url
+export const FUSE_CONFIG_QUERY_PARAMS = new InjectionToken<string[]>('fuseConfigQueryParams');
+
+// Define the default config paths that can be overridden from
+// the url, e.g. '?fuse.layout.navigation=none&fuse.layout.toolbar=none'
+const DEFAULT_QUERY_PARAMS = [
+    'layout.navigation',
+    'layout.navigationFolded',
+    'layout.toolbar',
+    'layout.footer',
+    'layout.mode'
+];
+
+// Define the prefix of the query params
+const QUERY_PARAM_PREFIX = 'fuse.';
+
+// Version of the stored config. Bump it and add a migration
+// whenever the shape of the config changes between releases.
+export const FUSE_CONFIG_VERSION = 1;
+
+// Define the migrations of the stored config, keyed by the version
+// they migrate to. Each one receives the config of the previous version.
+const CONFIG_MIGRATIONS: { [version: number]: (config: any) => any } = {};
+
+// Define the storage key of the config
+const CONFIG_STORAGE_KEY = 'config';
 
 @Injectable()
 export class FuseConfigService
 {
-    config: any;
-    defaultConfig: any;
+    config: FuseConfig;
+    defaultConfig: FuseConfig;
 
-    onConfigChanged: BehaviorSubject<any>;
+    onConfigChanged: BehaviorSubject<FuseConfig>;
+
+    // Private
+    private _savedConfig: FusePartialConfig;
+    private _routeConfig: FusePartialConfig;
+    private _queryConfig: FusePartialConfig;
+    private _queryParams: string[];
 
     /**
      * Constructor
      *
      * @param router
      * @param platform
+     * @param fuseStorage
      * @param config
+     * @param queryParams
+     * @param sections
      */
     constructor(
         private router: Router,
         public platform: Platform,
-        @Inject(FUSE_CONFIG) @Optional() config
+        private fuseStorage: FuseStorage,
+        @Inject(FUSE_CONFIG) @Optional() config: FuseConfig,
+        @Inject(FUSE_CONFIG_QUERY_PARAMS) @Optional() queryParams: string[],
+        @Inject(FUSE_CONFIG_SECTIONS) @Optional() sections: string[]
     )
     {
         // Set the default settings from the constant
@@ -52,6 +105,16 @@ export class FuseConfigService
         // use them as default config...
         if ( config )
         {
+            // Reject the invalid custom config
+            const result = validateFuseConfig(config, null, sections || []);
+
+            result.warnings.forEach((warning) => console.warn(warning));
+
+            if ( result.errors.length )
+            {
+                throw new Error('Invalid Fuse config: ' + result.errors.map((error) => error.message).join(' '));
+            }
+
             this.defaultConfig = config;
         }
 
@@ -64,50 +127,356 @@ export class FuseConfigService
         }
 
         // Set the config from the default config
-        this.config = {...this.defaultConfig};
+        this.config = FuseUtils.cloneDeep(this.defaultConfig);
+        this._savedConfig = {};
+        this._routeConfig = {};
+        this._queryConfig = {};
+        this._queryParams = queryParams || DEFAULT_QUERY_PARAMS;
+
+        // Create the behavior subject
+        this.onConfigChanged = new BehaviorSubject(this.config);
 
-        // Reload the default settings for the
-        // layout on every navigation start
         router.events.subscribe(
             (event) => {
-                if ( event instanceof NavigationStart )
+
+                // Once the route is resolved, the navigation can no longer be
+                // cancelled by the guards or the resolvers. Components are created
+                // after this point, so the setConfig calls made in their
+                // constructors will win over the route data.
+                if ( event instanceof ResolveEnd )
                 {
-                    this.setConfig({
-                            layout: this.defaultConfig.layout
-                        }
-                    );
+                    // Reload the default settings for the layout and for
+                    // anything the previous route changed
+                    const baseConfig = FuseUtils.mergeDeep(this.defaultConfig, this._savedConfig);
+                    const resetConfig: FusePartialConfig = {
+                        layout: baseConfig.layout
+                    };
+
+                    Object.keys({...this._routeConfig, ...this._queryConfig}).forEach((key) => {
+                        resetConfig[key] = baseConfig[key];
+                    });
+
+                    // Read the overrides from the query params of the new url,
+                    // they will be applied on top of everything else until
+                    // the next navigation
+                    this._queryConfig = this._validateConfig(this._getQueryConfig(event.url));
+
+                    // Apply the config from the route data
+                    this._routeConfig = this._getRouteConfig(event.state.root);
+                    this.setConfig(FuseUtils.mergeDeep(resetConfig, this._routeConfig));
                 }
             }
         );
 
-        // Create the behavior subject
-        this.onConfigChanged = new BehaviorSubject(this.config);
+        // Load the saved config
+        this._loadConfig();
     }
 
     /**
-     * Set the new config from given object
+     * Saved config
      *
-     * @param config
+     * @returns {FusePartialConfig}
      */
-    setConfig(config): void
+    get savedConfig(): FusePartialConfig
     {
-        // Set the config from the given object
-        // Ugly, but works for now...
-        this.config = {
-            ...this.config,
-            ...config,
-            layout     : {
-                ...this.config.layout,
-                ...config.layout,
-            },
-            colorClasses: {
-                ...this.config.colorClasses,
-                ...config.colorClasses
-            }
-        };
+        return FuseUtils.cloneDeep(this._savedConfig);
+    }
+
+    /**
+     * Set the new config from given object, pass the
+     * type of the app sections to set them too, e.g.
+     * `setConfig<AppConfig>({invoices: {currency: 'EUR'}})`
+     *
+     * @param {FusePartialConfig<T>} config
+     * @param {{persist?: boolean}} options
+     */
+    setConfig(config: FusePartialConfig, options?: { persist?: boolean }): void;
+    setConfig<T>(config: FusePartialConfig<T>, options?: { persist?: boolean }): void;
+    setConfig(config: FusePartialConfig<any>, options: { persist?: boolean } = {}): void
+    {
+        // Leave out the invalid values
+        config = this._validateConfig(config);
+
+        // Set the config from the given object, the
+        // query params overrides always stay on top
+        this.config = FuseUtils.mergeDeep(this.config, config, this._queryConfig);
+
+        // Save the given config if requested so it will
+        // be used as the user's default from now on
+        if ( options.persist )
+        {
+            this._savedConfig = FuseUtils.mergeDeep(this._savedConfig, this._omitOverrides(config));
+
+            this.fuseStorage.set(CONFIG_STORAGE_KEY, {
+                version: FUSE_CONFIG_VERSION,
+                config : this._savedConfig
+            }).subscribe();
+        }
 
         // Trigger the event
         this.onConfigChanged.next(this.config);
     }
+
+    /**
+     * Restore the default config and forget the saved one
+     */
+    resetConfig(): void
+    {
+        // Forget the saved config
+        this._savedConfig = {};
+        this.fuseStorage.remove(CONFIG_STORAGE_KEY).subscribe();
+
+        // Restore the default config but keep the config
+        // of the current route and the query params
+        this.config = FuseUtils.mergeDeep(this.defaultConfig, this._routeConfig, this._queryConfig);
+
+        // Trigger the event
+        this.onConfigChanged.next(this.config);
+    }
+
+    /**
+     * Select a slice of the config by its dot separated path,
+     * emits only when the value of the slice changes
+     *
+     * e.g. select('layout.navigation')
+     *
+     * @param {string} path
+     * @returns {Observable<T>}
+     */
+    select<T = any>(path: string): Observable<T>
+    {
+        return this.onConfigChanged
+                   .map((config) => FuseUtils.getByPath(config, path))
+                   .distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b));
+    }
+
+    /**
+     * Validate the given config and leave out the invalid values
+     *
+     * @param {FusePartialConfig} config
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _validateConfig(config: FusePartialConfig): FusePartialConfig
+    {
+        const result = validateFuseConfig(config, this.defaultConfig);
+
+        result.warnings.forEach((warning) => console.warn(warning));
+
+        result.errors.forEach((error) => {
+            console.error(error.message);
+
+            // Leave out the whole config if it isn't an object
+            config = error.path ? this._omitPath(config, error.path.split('.')) : {};
+        });
+
+        return config;
+    }
+
+    /**
+     * Return a copy of the given object without the given path
+     *
+     * @param obj
+     * @param {string[]} keys
+     * @returns {any}
+     * @private
+     */
+    private _omitPath(obj: any, keys: string[]): any
+    {
+        const copy = {...obj};
+
+        if ( keys.length === 1 )
+        {
+            delete copy[keys[0]];
+        }
+        else
+        {
+            copy[keys[0]] = this._omitPath(obj[keys[0]], keys.slice(1));
+        }
+
+        return copy;
+    }
+
+    /**
+     * Collect the config from the 'fuseConfig' data of the given
+     * route and its primary children. Children win over their parents.
+     *
+     * @param {ActivatedRouteSnapshot} route
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _getRouteConfig(route: ActivatedRouteSnapshot): FusePartialConfig
+    {
+        let config: FusePartialConfig = {};
+
+        while ( route )
+        {
+            if ( route.data && route.data.fuseConfig )
+            {
+                config = FuseUtils.mergeDeep(config, route.data.fuseConfig);
+            }
+
+            route = route.children.find((child) => child.outlet === PRIMARY_OUTLET);
+        }
+
+        return config;
+    }
+
+    /**
+     * Collect the config from the whitelisted query params of the given url
+     *
+     * @param {string} url
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _getQueryConfig(url: string): FusePartialConfig
+    {
+        const queryParams = this.router.parseUrl(url).queryParams;
+        const config = {};
+
+        for ( const path of this._queryParams )
+        {
+            const value = queryParams[QUERY_PARAM_PREFIX + path];
+
+            if ( value === undefined )
+            {
+                continue;
+            }
+
+            // Create the parent objects of the path
+            const keys = path.split('.');
+            const lastKey = keys.pop();
+            let target = config;
+
+            for ( const key of keys )
+            {
+                target = target[key] = target[key] || {};
+            }
+
+            // Set the value, convert the booleans
+            if ( value === 'true' || value === 'false' )
+            {
+                target[lastKey] = value === 'true';
+            }
+            else
+            {
+                target[lastKey] = value;
+            }
+        }
+
+        return config;
+    }
+
+    /**
+     * Return a copy of the given config without the values
+     * overridden by the route data and the query params,
+     * so they don't become the user's defaults
+     *
+     * @param {FusePartialConfig} config
+     * @returns {FusePartialConfig}
+     * @private
+     */
+    private _omitOverrides(config: FusePartialConfig): FusePartialConfig
+    {
+        const paths = [...this._getLeafPaths(this._routeConfig), ...this._getLeafPaths(this._queryConfig)];
+
+        for ( const path of paths )
+        {
+            if ( FuseUtils.getByPath(config, path) !== undefined )
+            {
+                config = this._omitPath(config, path.split('.'));
+            }
+        }
+
+        return config;
+    }
+
+    /**
+     * Get the dot separated paths of the values of the given object
+     *
+     * @param obj
+     * @param {string} prefix
+     * @returns {string[]}
+     * @private
+     */
+    private _getLeafPaths(obj: any, prefix = ''): string[]
+    {
+        return Object.keys(obj).reduce((paths, key) => {
+
+            if ( FuseUtils.isPlainObject(obj[key]) )
+            {
+                return [...paths, ...this._getLeafPaths(obj[key], prefix + key + '.')];
+            }
+
+            return [...paths, prefix + key];
+        }, []);
+    }
+
+    /**
+     * Load the saved config from the storage and apply it
+     *
+     * @private
+     */
+    private _loadConfig(): void
+    {
+        this.fuseStorage.get(CONFIG_STORAGE_KEY)
+            .subscribe((stored) => {
+
+                // Migrate the stored config to the current version
+                const savedConfig = this._migrateConfig(stored);
+
+                // Return if there is nothing to apply
+                if ( !savedConfig )
+                {
+                    return;
+                }
+
+                // Apply the saved config under the config of the current
+                // route, the storage may answer after the route is resolved
+                this._savedConfig = this._validateConfig(savedConfig);
+                this.config = FuseUtils.mergeDeep(this.config, this._savedConfig, this._routeConfig, this._queryConfig);
+
+                // Trigger the event
+                this.onConfigChanged.next(this.config);
+            });
+    }
+
+    /**
+     * Migrate the stored config to the current version
+     *
+     * @param stored
+     * @returns {any}
+     * @private
+     */
+    private _migrateConfig(stored): any
+    {
+        if ( !stored || !stored.config )
+        {
+            return null;
+        }
+
+        let version = stored.version || 0;
+        let config = stored.config;
+
+        // Ignore the configs that are stored by a newer
+        // release, there is no way to know their shape
+        if ( version > FUSE_CONFIG_VERSION )
+        {
+            return null;
+        }
+
+        // Run the migrations one by one
+        while ( version < FUSE_CONFIG_VERSION )
+        {
+            version++;
+
+            if ( CONFIG_MIGRATIONS[version] )
+            {
+                config = CONFIG_MIGRATIONS[version](config);
+            }
+        }
+
+        return config;
+    }
 }
 
@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
+
+export interface FusePermissions
+{
+    roles: string[];
+    permissions: string[];
+}
+
+/**
+ * Provides the roles and the permissions of the current user
+ *
+ * Fuse uses the FusePermissionService by default, call its `setPermissions`
+ * method once the user is known, or provide your own implementation
+ * in your AppModule:
+ *
+ * providers: [
+ *     {provide: FusePermissionProvider, useClass: MyPermissionProvider}
+ * ]
+ */
+export abstract class FusePermissionProvider
+{
+    /**
+     * Emits the permissions of the current user
+     * and their changes
+     */
+    abstract onPermissionsChanged: Observable<FusePermissions>;
+}
+
+@Injectable()
+export class FusePermissionService extends FusePermissionProvider
+{
+    onPermissionsChanged: BehaviorSubject<FusePermissions>;
+
+    /**
+     * Constructor
+     */
+    constructor()
+    {
+        super();
+
+        // Set the defaults
+        this.onPermissionsChanged = new BehaviorSubject({
+            roles      : [],
+            permissions: []
+        });
+    }
+
+    /**
+     * Set the permissions of the current user
+     *
+     * @param {Partial<FusePermissions>} permissions
+     */
+    setPermissions(permissions: Partial<FusePermissions>): void
+    {
+        this.onPermissionsChanged.next({
+            roles      : permissions.roles || [],
+            permissions: permissions.permissions || []
+        });
+    }
+}
@@ -0,0 +1,100 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable } from 'rxjs/Observable';
+import { of } from 'rxjs/observable/of';
+import { _throw } from 'rxjs/observable/throw';
+import 'rxjs/add/operator/delay';
+import 'rxjs/add/operator/mergeMap';
+
+import { FUSE_STORAGE_URL, FuseLocalStorage } from '@fuse/services/storage.service';
+
+// Define the response delay of the mock server
+const MOCK_DELAY = 300;
+
+/**
+ * Mock server for the FuseHttpStorage endpoint
+ *
+ * Answers the requests to the storage url from the local storage, so the
+ * REST storage can be used before the server side exists:
+ *
+ * providers: [
+ *     {provide: FuseStorage, useClass: FuseHttpStorage},
+ *     {provide: FUSE_STORAGE_URL, useValue: '/api/profile/preferences'},
+ *     {provide: HTTP_INTERCEPTORS, useClass: FuseStorageMockInterceptor, multi: true}
+ * ]
+ */
+@Injectable()
+export class FuseStorageMockInterceptor implements HttpInterceptor
+{
+    // Private
+    private _storage: FuseLocalStorage;
+
+    /**
+     * Constructor
+     *
+     * @param {string} url
+     */
+    constructor(
+        @Inject(FUSE_STORAGE_URL) private url: string
+    )
+    {
+        // Set the defaults
+        this._storage = new FuseLocalStorage('fuse-mock-server');
+    }
+
+    /**
+     * Intercept the requests to the storage url
+     *
+     * @param {HttpRequest<any>} req
+     * @param {HttpHandler} next
+     * @returns {Observable<HttpEvent<any>>}
+     */
+    intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>>
+    {
+        if ( !req.url.startsWith(this.url + '/') )
+        {
+            return next.handle(req);
+        }
+
+        const key = decodeURIComponent(req.url.substr(this.url.length + 1));
+
+        switch ( req.method )
+        {
+            case 'GET':
+                return this._respond(req, this._storage.get(key), 200);
+
+            case 'PUT':
+                return this._respond(req, this._storage.set(key, req.body), 200);
+
+            case 'DELETE':
+                return this._respond(req, this._storage.remove(key), 204);
+
+            default:
+                return _throw(new HttpErrorResponse({status: 405, url: req.url}));
+        }
+    }
+
+    /**
+     * Respond with the value of the given source after the delay,
+     * a missing value is a 404 like it would be on the server
+     *
+     * @param {HttpRequest<any>} req
+     * @param {Observable<any>} source
+     * @param {number} status
+     * @returns {Observable<HttpEvent<any>>}
+     * @private
+     */
+    private _respond(req: HttpRequest<any>, source: Observable<any>, status: number): Observable<HttpEvent<any>>
+    {
+        return source
+            .delay(MOCK_DELAY)
+            .mergeMap((body) => {
+                if ( req.method === 'GET' && body === null )
+                {
+                    return _throw(new HttpErrorResponse({status: 404, url: req.url}));
+                }
+
+                return of(new HttpResponse({status, body, url: req.url}));
+            });
+    }
+}
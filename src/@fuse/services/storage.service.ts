@@ -0,0 +1,254 @@
+import { Inject, Injectable, InjectionToken, Optional } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs/Observable';
+import { of } from 'rxjs/observable/of';
+import 'rxjs/add/operator/catch';
+
+// Create the injection tokens for the storage options
+export const FUSE_STORAGE_PREFIX = new InjectionToken<string>('fuseStoragePrefix');
+export const FUSE_STORAGE_SCOPE = new InjectionToken<() => string>('fuseStorageScope');
+export const FUSE_STORAGE_URL = new InjectionToken<string>('fuseStorageUrl');
+
+/**
+ * Key/value storage for the user preferences (layout config, shortcuts, etc.)
+ *
+ * Fuse uses the local storage backend by default. Provide a different
+ * implementation in your AppModule to store the preferences somewhere else:
+ *
+ * providers: [
+ *     {provide: FuseStorage, useClass: FuseHttpStorage},
+ *     {provide: FUSE_STORAGE_URL, useValue: '/api/profile/preferences'}
+ * ]
+ *
+ * Until the endpoint exists, add the FuseStorageMockInterceptor
+ * to the HTTP_INTERCEPTORS to serve it from the local storage.
+ *
+ * The preferences belong to the user. Provide a function that returns the
+ * id of the signed in user, so the users of a shared browser don't see each
+ * other's preferences. The storages put the id in front of the keys, both in
+ * the local storage and in the endpoint urls:
+ *
+ * providers: [
+ *     {provide: FUSE_STORAGE_SCOPE, useFactory: (authService: AuthService) => () => authService.userId, deps: [AuthService]}
+ * ]
+ *
+ * The preferences are read once when the services are created, so reload
+ * the app when the user signs in or out. Without a scope, or while it returns
+ * nothing, the preferences are shared by everyone using the browser.
+ */
+export abstract class FuseStorage
+{
+    /**
+     * Get the stored value of the given key,
+     * emits null if there is nothing stored
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    abstract get(key: string): Observable<any>;
+
+    /**
+     * Store the value under the given key
+     *
+     * @param {string} key
+     * @param value
+     * @returns {Observable<any>}
+     */
+    abstract set(key: string, value: any): Observable<any>;
+
+    /**
+     * Remove the stored value of the given key
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    abstract remove(key: string): Observable<any>;
+}
+
+@Injectable()
+export class FuseLocalStorage extends FuseStorage
+{
+    // Private
+    private _prefix: string;
+    private _scope: () => string;
+
+    /**
+     * Constructor
+     *
+     * @param {string} prefix
+     * @param {() => string} scope
+     */
+    constructor(
+        @Inject(FUSE_STORAGE_PREFIX) @Optional() prefix: string,
+        @Inject(FUSE_STORAGE_SCOPE) @Optional() scope?: () => string
+    )
+    {
+        super();
+
+        // Set the defaults
+        this._prefix = prefix || 'fuse';
+        this._scope = scope || (() => null);
+    }
+
+    /**
+     * Get the stored value of the given key
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    get(key: string): Observable<any>
+    {
+        try
+        {
+            const value = localStorage.getItem(this._getKey(key));
+
+            return of(value === null ? null : JSON.parse(value));
+        }
+        catch ( e )
+        {
+            // Storage can be disabled or the value can be corrupted,
+            // either way act like there is nothing stored
+            return of(null);
+        }
+    }
+
+    /**
+     * Store the value under the given key
+     *
+     * @param {string} key
+     * @param value
+     * @returns {Observable<any>}
+     */
+    set(key: string, value: any): Observable<any>
+    {
+        try
+        {
+            localStorage.setItem(this._getKey(key), JSON.stringify(value));
+        }
+        catch ( e )
+        {
+            console.warn(`Couldn't store the '${key}' in the local storage.`);
+        }
+
+        return of(value);
+    }
+
+    /**
+     * Remove the stored value of the given key
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    remove(key: string): Observable<any>
+    {
+        try
+        {
+            localStorage.removeItem(this._getKey(key));
+        }
+        catch ( e )
+        {
+            console.warn(`Couldn't remove the '${key}' from the local storage.`);
+        }
+
+        return of(null);
+    }
+
+    /**
+     * Get the prefixed and scoped key
+     *
+     * @param {string} key
+     * @returns {string}
+     * @private
+     */
+    private _getKey(key: string): string
+    {
+        const scope = this._scope();
+
+        return this._prefix + '.' + (scope ? scope + '.' : '') + key;
+    }
+}
+
+@Injectable()
+export class FuseHttpStorage extends FuseStorage
+{
+    // Private
+    private _scope: () => string;
+
+    /**
+     * Constructor
+     *
+     * @param {HttpClient} httpClient
+     * @param {string} url
+     * @param {() => string} scope
+     */
+    constructor(
+        private httpClient: HttpClient,
+        @Inject(FUSE_STORAGE_URL) private url: string,
+        @Inject(FUSE_STORAGE_SCOPE) @Optional() scope: () => string
+    )
+    {
+        super();
+
+        // Set the defaults
+        this._scope = scope || (() => null);
+    }
+
+    /**
+     * Get the stored value of the given key
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    get(key: string): Observable<any>
+    {
+        return this.httpClient.get(this._getUrl(key))
+                   .catch(() => of(null));
+    }
+
+    /**
+     * Store the value under the given key
+     *
+     * @param {string} key
+     * @param value
+     * @returns {Observable<any>}
+     */
+    set(key: string, value: any): Observable<any>
+    {
+        return this.httpClient.put(this._getUrl(key), value)
+                   .catch(() => {
+                       console.warn(`Couldn't store the '${key}' on the server.`);
+
+                       return of(value);
+                   });
+    }
+
+    /**
+     * Remove the stored value of the given key
+     *
+     * @param {string} key
+     * @returns {Observable<any>}
+     */
+    remove(key: string): Observable<any>
+    {
+        return this.httpClient.delete(this._getUrl(key))
+                   .catch(() => {
+                       console.warn(`Couldn't remove the '${key}' from the server.`);
+
+                       return of(null);
+                   });
+    }
+
+    /**
+     * Get the scoped endpoint url of the given key
+     *
+     * @param {string} key
+     * @returns {string}
+     * @private
+     */
+    private _getUrl(key: string): string
+    {
+        const scope = this._scope();
+
+        return this.url + '/' + (scope ? encodeURIComponent(scope) + '/' : '') + encodeURIComponent(key);
+    }
+}
@@ -0,0 +1,31 @@
+import { Observable } from 'rxjs/Observable';
+import { of } from 'rxjs/observable/of';
+
+import { FuseStorage } from '@fuse/services/storage.service';
+
+/**
+ * FuseStorage that keeps the values in memory, for the specs
+ */
+export class FuseMemoryStorage extends FuseStorage
+{
+    values: { [key: string]: any } = {};
+
+    get(key: string): Observable<any>
+    {
+        return of(this.values.hasOwnProperty(key) ? this.values[key] : null);
+    }
+
+    set(key: string, value: any): Observable<any>
+    {
+        this.values[key] = value;
+
+        return of(value);
+    }
+
+    remove(key: string): Observable<any>
+    {
+        delete this.values[key];
+
+        return of(null);
+    }
+}
@@ -0,0 +1,16 @@
+export interface FuseBreadcrumb
+{
+    title: string;
+    url?: string;
+    icon?: string;
+}
+
+/**
+ * The value of the `breadcrumb` in the route data, either the
+ * title itself or an object with a title and/or a translate key
+ */
+export type FuseBreadcrumbData = string | {
+    title?: string;
+    translate?: string;
+    icon?: string;
+};
@@ -0,0 +1,31 @@
+import { FuseNavigationIndexEntry } from './fuse-navigation';
+
+export interface FuseCommand
+{
+    id: string;
+    title: string;
+    translate?: string;
+    icon?: string;
+    keywords?: string[];
+    run: () => void;
+}
+
+export type FuseCommandPaletteResultType = 'recent' | 'page' | 'command';
+
+export interface FuseCommandPaletteResult
+{
+    type: FuseCommandPaletteResultType;
+    title: string;
+    subtitle?: string;
+    icon?: string;
+    url?: string;
+    entry?: FuseNavigationIndexEntry;
+    command?: FuseCommand;
+    score: number;
+}
+
+export interface FuseRecentPage
+{
+    id: string;
+    url: string;
+}
@@ -0,0 +1,47 @@
+export type FuseNavigationPosition = 'left' | 'right' | 'top' | 'none';
+export type FuseToolbarPosition = 'above' | 'below' | 'none';
+export type FuseFooterPosition = 'above' | 'below' | 'none';
+export type FuseNavigationCollapseMode = 'accordion' | 'independent';
+export type FuseLayoutMode = 'boxed' | 'fullwidth';
+export type FuseRouterAnimation = 'fadeIn' | 'slideUp' | 'slideDown' | 'slideRight' | 'slideLeft' | 'none';
+
+export interface FuseLayoutConfig
+{
+    navigation: FuseNavigationPosition;
+    navigationFolded: boolean;
+    navigationCollapse: FuseNavigationCollapseMode;
+    toolbar: FuseToolbarPosition;
+    footer: FuseFooterPosition;
+    mode: FuseLayoutMode;
+}
+
+export interface FuseColorClasses
+{
+    toolbar: string;
+    navbar: string;
+    footer: string;
+}
+
+export interface FuseCoreConfig
+{
+    layout: FuseLayoutConfig;
+    colorClasses: FuseColorClasses;
+    customScrollbars: boolean;
+    routerAnimation: FuseRouterAnimation;
+}
+
+export interface FuseCorePartialConfig
+{
+    layout?: Partial<FuseLayoutConfig>;
+    colorClasses?: Partial<FuseColorClasses>;
+    customScrollbars?: boolean;
+    routerAnimation?: FuseRouterAnimation;
+}
+
+/**
+ * The config of the Fuse and the app's own sections, e.g.
+ * FuseConfig<{ invoices: { currency: string } }>
+ */
+export type FuseConfig<T = {}> = FuseCoreConfig & T;
+
+export type FusePartialConfig<T = {}> = FuseCorePartialConfig & { [K in keyof T]?: Partial<T[K]> };
@@ -0,0 +1,53 @@
+import { Observable } from 'rxjs/Observable';
+
+export type FuseNavigationItemType = 'item' | 'group' | 'collapse';
+
+export interface FuseNavigationBadge
+{
+    title?: string | number;
+    translate?: string;
+    bg?: string;
+    fg?: string;
+    max?: number;
+}
+
+export interface FuseNavigationItem
+{
+    id: string;
+    title: string;
+    type: FuseNavigationItemType;
+    translate?: string;
+    icon?: string;
+    hidden?: boolean;
+    roles?: string[];
+    permissions?: string[];
+    url?: string;
+    externalUrl?: boolean;
+    target?: string;
+    openInNewTab?: boolean;
+    queryParams?: { [key: string]: any };
+    fragment?: string;
+    exactMatch?: boolean;
+    function?: () => void;
+    badge?: FuseNavigationBadge;
+    children?: FuseNavigationItem[];
+    childrenLoader?: () => Observable<FuseNavigationItem[]>;
+}
+
+export interface FuseNavigationIndexEntry
+{
+    id: string;
+    title: string;
+    translate?: string;
+    type: FuseNavigationItemType;
+    icon?: string;
+    url?: string;
+    externalUrl?: boolean;
+    target?: string;
+    openInNewTab?: boolean;
+    queryParams?: { [key: string]: any };
+    fragment?: string;
+    badge?: FuseNavigationBadge;
+    item: FuseNavigationItem;
+    parents: FuseNavigationIndexEntry[];
+}
@@ -0,0 +1,10 @@
+/**
+ * An item moved within a reorderable list, the indexes are
+ * the positions of the item before and after the move
+ */
+export interface FuseReorderEvent
+{
+    item: any;
+    fromIndex: number;
+    toIndex: number;
+}
@@ -0,0 +1,42 @@
+import { Observable } from 'rxjs/Observable';
+
+export interface FuseSearchResult
+{
+    title: string;
+    subtitle?: string;
+    icon?: string;
+    url?: string;
+    externalUrl?: boolean;
+    target?: string;
+    queryParams?: { [key: string]: any };
+    fragment?: string;
+    action?: () => void;
+}
+
+/**
+ * The parsed search query, e.g. `in:orders status:open acme` is
+ * `{text: 'acme', scopes: ['orders'], filters: {status: 'open'}}`
+ */
+export interface FuseSearchQuery
+{
+    raw: string;
+    text: string;
+    scopes: string[];
+    filters: { [key: string]: string };
+}
+
+export interface FuseSearchProvider
+{
+    id: string;
+    title: string;
+    icon?: string;
+    search: (query: FuseSearchQuery) => Observable<FuseSearchResult[]>;
+}
+
+export interface FuseSearchResultGroup
+{
+    provider: FuseSearchProvider;
+    results: FuseSearchResult[];
+    loading: boolean;
+    error: any;
+}
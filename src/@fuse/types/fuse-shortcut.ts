@@ -0,0 +1,13 @@
+export interface FuseShortcut
+{
+    id?: string;
+    title: string;
+    translate?: string;
+    icon?: string;
+    url: string;
+    externalUrl?: boolean;
+    target?: string;
+    openInNewTab?: boolean;
+    queryParams?: { [key: string]: any };
+    fragment?: string;
+}
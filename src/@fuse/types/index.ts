@@ -0,0 +1,7 @@
+export * from './fuse-breadcrumb';
+export * from './fuse-command';
+export * from './fuse-config';
+export * from './fuse-navigation';
+export * from './fuse-reorder';
+export * from './fuse-search';
+export * from './fuse-shortcut';
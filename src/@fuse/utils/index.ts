@@ -102,6 +102,145 @@ export class FuseUtils
         }
     }
 
+    /**
+     * Deep merge the given sources into a copy of the target
+     *
+     * Plain objects are merged recursively, arrays are replaced with
+     * a copy of the source array and undefined values are skipped.
+     *
+     * @param target
+     * @param sources
+     * @returns {any}
+     */
+    public static mergeDeep(target, ...sources)
+    {
+        const result = this.isPlainObject(target) ? {...target} : {};
+
+        for ( const source of sources )
+        {
+            if ( !this.isPlainObject(source) )
+            {
+                continue;
+            }
+
+            for ( const key of Object.keys(source) )
+            {
+                const value = source[key];
+
+                if ( value === undefined )
+                {
+                    continue;
+                }
+
+                if ( this.isPlainObject(value) )
+                {
+                    result[key] = this.mergeDeep(result[key], value);
+                }
+                else if ( Array.isArray(value) )
+                {
+                    result[key] = this.cloneDeep(value);
+                }
+                else
+                {
+                    result[key] = value;
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Deep clone the plain objects and arrays of the given value
+     *
+     * @param value
+     * @returns {any}
+     */
+    public static cloneDeep(value)
+    {
+        if ( Array.isArray(value) )
+        {
+            return value.map((item) => this.cloneDeep(item));
+        }
+
+        if ( this.isPlainObject(value) )
+        {
+            return this.mergeDeep({}, value);
+        }
+
+        return value;
+    }
+
+    /**
+     * Check if the given value is a plain object
+     *
+     * @param value
+     * @returns {boolean}
+     */
+    public static isPlainObject(value)
+    {
+        return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+    }
+
+    /**
+     * Get the value at the given dot separated path of the object
+     *
+     * @param obj
+     * @param {string} path
+     * @returns {any}
+     */
+    public static getByPath(obj, path: string)
+    {
+        return path.split('.').reduce((value, key) => {
+            return value === null || value === undefined ? undefined : value[key];
+        }, obj);
+    }
+
+    /**
+     * Score how well the given text matches the given query. The characters
+     * of the query must appear in the text in order, the consecutive ones and
+     * the ones at the word starts score higher. Returns -1 if there is no match.
+     *
+     * @param {string} text
+     * @param {string} query
+     * @returns {number}
+     */
+    public static fuzzyScore(text: string, query: string): number
+    {
+        text = text.toLowerCase();
+        query = query.toLowerCase();
+
+        let score = 0;
+        let previousIndex = -2;
+
+        for ( const char of query )
+        {
+            const index = text.indexOf(char, previousIndex + 1);
+
+            if ( index === -1 )
+            {
+                return -1;
+            }
+
+            score++;
+
+            if ( index === previousIndex + 1 )
+            {
+                score += 2;
+            }
+
+            if ( index === 0 || /[\s\-_\/.]/.test(text[index - 1]) )
+            {
+                score += 3;
+            }
+
+            previousIndex = index;
+        }
+
+        // Prefer the shorter texts on equal scores
+        return score + query.length / text.length;
+    }
+
     public static handleize(text)
     {
         return text.toString().toLowerCase()
@@ -1,10 +1,14 @@
 import { Component } from '@angular/core';
 import { TranslateService } from '@ngx-translate/core';
 
+import { FuseCommandPaletteService } from '@fuse/components/command-palette/command-palette.service';
 import { FuseSplashScreenService } from '@fuse/services/splash-screen.service';
 import { FuseTranslationLoaderService } from '@fuse/services/translation-loader.service';
 import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseNavigationSearchProvider } from '@fuse/components/search-bar/navigation-search.provider';
+import { FuseSearchService } from '@fuse/components/search-bar/search.service';
 
+import { navigation } from './navigation/navigation';
 import { locale as navigationEnglish } from './navigation/i18n/en';
 import { locale as navigationTurkish } from './navigation/i18n/tr';
 
@@ -17,11 +21,20 @@ export class AppComponent
 {
     constructor(
         private translate: TranslateService,
+        private fuseCommandPalette: FuseCommandPaletteService,
         private fuseNavigationService: FuseNavigationService,
+        private fuseNavigationSearchProvider: FuseNavigationSearchProvider,
+        private fuseSearchService: FuseSearchService,
         private fuseSplashScreen: FuseSplashScreenService,
         private fuseTranslationLoader: FuseTranslationLoaderService
     )
     {
+        // Set the navigation model
+        this.fuseNavigationService.setNavigation(navigation);
+
+        // Search the navigation from the toolbar
+        this.fuseSearchService.registerProvider(this.fuseNavigationSearchProvider);
+
         // Add languages
         this.translate.addLangs(['en', 'tr']);
 
@@ -33,5 +46,27 @@ export class AppComponent
 
         // Use a language
         this.translate.use('en');
+
+        // Add the language commands to the command palette
+        [
+            {
+                'id'   : 'en',
+                'title': 'English'
+            },
+            {
+                'id'   : 'tr',
+                'title': 'Turkish'
+            }
+        ].forEach((lang) => {
+            this.fuseCommandPalette.registerCommand({
+                id      : 'language-' + lang.id,
+                title   : 'Switch language to ' + lang.title,
+                icon    : 'translate',
+                keywords: ['language', lang.id],
+                run     : () => {
+                    this.translate.use(lang.id);
+                }
+            });
+        });
     }
 }
@@ -34,7 +34,7 @@ const appRoutes: Routes = [
         TranslateModule.forRoot(),
 
         // Fuse Main and Shared modules
-        FuseModule.forRoot(fuseConfig),
+        FuseModule.forRoot(fuseConfig, ['colorThemes']),
         FuseSharedModule,
         FuseMainModule,
         FuseSampleModule
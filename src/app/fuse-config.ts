@@ -1,17 +1,41 @@
+import { FuseColorClasses, FuseConfig } from '@fuse/types';
+
+/**
+ * The sections the app adds to the Fuse config
+ */
+export interface AppConfig
+{
+    colorThemes: {
+        light: FuseColorClasses;
+        dark: FuseColorClasses;
+    };
+}
+
 /**
  * Default Fuse Configuration
  *
  * You can edit these options to change the default options. All these options also can be changed per component
  * basis. See `app/main/content/pages/authentication/login/login.component.ts` constructor method to learn more
  * about changing these options per component basis.
+ *
+ * They can also be changed per route basis by adding them to the route data, e.g.
+ * `{path: 'login', component: LoginComponent, data: {fuseConfig: {layout: {navigation: 'none'}}}}`.
+ * Child routes, including the ones from the lazy loaded modules, inherit and override the config of their parents.
+ *
+ * The layout options can also be forced temporarily from the url, e.g. `?fuse.layout.navigation=none&fuse.layout.toolbar=none`.
+ * Provide `FUSE_CONFIG_QUERY_PARAMS` to change which options can be overridden this way.
+ *
+ * The app can add its own sections by typing the config as e.g. `FuseConfig<{invoices: {currency: string}}>`,
+ * list them in `FuseModule.forRoot(fuseConfig, ['invoices'])` so they aren't reported as unknown keys.
  */
-export const fuseConfig = {
+export const fuseConfig: FuseConfig<AppConfig> = {
     layout          : {
-        navigation      : 'left', // 'right', 'left', 'top', 'none'
-        navigationFolded: false, // true, false
-        toolbar         : 'below', // 'above', 'below', 'none'
-        footer          : 'below', // 'above', 'below', 'none'
-        mode            : 'fullwidth' // 'boxed', 'fullwidth'
+        navigation        : 'left', // 'right', 'left', 'top', 'none'
+        navigationFolded  : false, // true, false
+        navigationCollapse: 'accordion', // 'accordion', 'independent'
+        toolbar           : 'below', // 'above', 'below', 'none'
+        footer            : 'below', // 'above', 'below', 'none'
+        mode              : 'fullwidth' // 'boxed', 'fullwidth'
     },
     colorClasses    : {
         toolbar: 'mat-white-500-bg',
@@ -19,5 +43,17 @@ export const fuseConfig = {
         footer : 'mat-fuse-dark-900-bg'
     },
     customScrollbars: true,
-    routerAnimation : 'fadeIn' // fadeIn, slideUp, slideDown, slideRight, slideLeft, none
+    routerAnimation : 'fadeIn', // fadeIn, slideUp, slideDown, slideRight, slideLeft, none
+    colorThemes     : { // The color classes applied by the 'Toggle dark theme' command
+        light: {
+            toolbar: 'mat-white-500-bg',
+            navbar : 'mat-white-500-bg',
+            footer : 'mat-white-500-bg'
+        },
+        dark : {
+            toolbar: 'mat-fuse-dark-500-bg',
+            navbar : 'mat-fuse-dark-700-bg',
+            footer : 'mat-fuse-dark-900-bg'
+        }
+    }
 };
@@ -4,6 +4,7 @@ import { RouterModule } from '@angular/router';
 import { TranslateModule } from '@ngx-translate/core';
 
 import { FuseSharedModule } from '@fuse/shared.module';
+import { FuseBreadcrumbsModule } from '@fuse/components';
 
 import { FuseSampleComponent } from './sample.component';
 
@@ -23,7 +24,8 @@ const routes = [
 
         TranslateModule,
 
-        FuseSharedModule
+        FuseSharedModule,
+        FuseBreadcrumbsModule
     ],
     exports     : [
         FuseSampleComponent
@@ -4,6 +4,12 @@ import { Platform } from '@angular/cdk/platform';
 import { Subscription } from 'rxjs/Subscription';
 
 import { FuseConfigService } from '@fuse/services/config.service';
+import { FuseCommandPaletteService } from '@fuse/components/command-palette/command-palette.service';
+import { FuseSidebarService } from '@fuse/components/sidebar/sidebar.service';
+import { FuseThemeOptionsService } from '@fuse/components/theme-options/theme-options.service';
+import { FuseConfig } from '@fuse/types';
+
+import { AppConfig } from 'app/fuse-config';
 
 @Component({
     selector     : 'fuse-main',
@@ -22,6 +28,9 @@ export class FuseMainComponent implements OnDestroy
         private _elementRef: ElementRef,
         private fuseConfig: FuseConfigService,
         private platform: Platform,
+        private fuseCommandPalette: FuseCommandPaletteService,
+        private sidebarService: FuseSidebarService,
+        private themeOptionsService: FuseThemeOptionsService,
         @Inject(DOCUMENT) private document: any
     )
     {
@@ -38,11 +47,62 @@ export class FuseMainComponent implements OnDestroy
         {
             this.document.body.className += ' is-mobile';
         }
+
+        // Layout commands of the command palette
+        this.fuseCommandPalette.registerCommand({
+            id      : 'toggle-theme',
+            title   : 'Toggle dark theme',
+            icon    : 'invert_colors',
+            keywords: ['light', 'dark', 'colors'],
+            run     : () => {
+                this.toggleTheme();
+            }
+        });
+
+        this.fuseCommandPalette.registerCommand({
+            id      : 'fold-navbar',
+            title   : 'Fold/unfold the navigation',
+            icon    : 'menu',
+            keywords: ['collapse', 'expand', 'sidebar'],
+            run     : () => {
+                this.toggleNavbarFolded();
+            }
+        });
     }
 
     ngOnDestroy()
     {
         this.onConfigChanged.unsubscribe();
+        this.fuseCommandPalette.unregisterCommand('toggle-theme');
+        this.fuseCommandPalette.unregisterCommand('fold-navbar');
+    }
+
+    toggleTheme()
+    {
+        const colorThemes = (this.fuseSettings as FuseConfig<AppConfig>).colorThemes;
+
+        // The color themes are an app section, they may be left out
+        if ( !colorThemes || !colorThemes.light || !colorThemes.dark )
+        {
+            return;
+        }
+
+        const isDark = this.fuseSettings.colorClasses.navbar === colorThemes.dark.navbar;
+
+        this.themeOptionsService.applyConfig({
+            colorClasses: isDark ? colorThemes.light : colorThemes.dark
+        });
+    }
+
+    toggleNavbarFolded()
+    {
+        // There is no navbar to fold
+        if ( this.fuseSettings.layout.navigation === 'none' )
+        {
+            return;
+        }
+
+        this.sidebarService.getSidebar('navbar').toggleFold();
     }
 
     addClass(className: string)
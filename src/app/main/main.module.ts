@@ -3,7 +3,7 @@ import { RouterModule } from '@angular/router';
 import { MatSidenavModule } from '@angular/material';
 
 import { FuseSharedModule } from '@fuse/shared.module';
-import { FuseNavigationModule, FuseSearchBarModule, FuseShortcutsModule, FuseSidebarModule, FuseThemeOptionsModule } from '@fuse/components';
+import { FuseCommandPaletteModule, FuseNavigationModule, FuseSearchBarModule, FuseShortcutsModule, FuseSidebarModule, FuseThemeOptionsModule } from '@fuse/components';
 
 import { FuseContentModule } from 'app/main/content/content.module';
 import { FuseFooterModule } from 'app/main/footer/footer.module';
@@ -26,6 +26,7 @@ import { FuseMainComponent } from './main.component';
         FuseSharedModule,
 
         FuseThemeOptionsModule,
+        FuseCommandPaletteModule,
         FuseNavigationModule,
         FuseSearchBarModule,
         FuseShortcutsModule,
@@ -1,11 +1,11 @@
 import { Component, Input, OnDestroy, ViewChild, ViewEncapsulation } from '@angular/core';
 import { Subscription } from 'rxjs/Subscription';
+import { combineLatest } from 'rxjs/observable/combineLatest';
 
 import { FusePerfectScrollbarDirective } from '@fuse/directives/fuse-perfect-scrollbar/fuse-perfect-scrollbar.directive';
 import { FuseSidebarService } from '@fuse/components/sidebar/sidebar.service';
-
-import { navigation } from 'app/navigation/navigation';
 import { FuseNavigationService } from '@fuse/components/navigation/navigation.service';
+import { FuseNavigationItem } from '@fuse/types';
 
 @Component({
     selector     : 'fuse-navbar',
@@ -35,8 +35,10 @@ export class FuseNavbarComponent implements OnDestroy
     }
 
     @Input() layout;
-    navigation: any;
+    navigation: FuseNavigationItem[];
+    filterQuery: string;
     navigationServiceWatcher: Subscription;
+    onNavigationChanged: Subscription;
     fusePerfectScrollbarUpdateTimeout;
 
     constructor(
@@ -44,8 +46,15 @@ export class FuseNavbarComponent implements OnDestroy
         private navigationService: FuseNavigationService
     )
     {
-        // Navigation data
-        this.navigation = navigation;
+        // Navigation data, filtered by the navigation filter
+        this.onNavigationChanged =
+            combineLatest(this.navigationService.onNavigationChanged, this.navigationService.onFilterChanged)
+                .subscribe(
+                    ([newNavigation, filterQuery]) => {
+                        this.filterQuery = filterQuery;
+                        this.navigation = this.navigationService.filterNavigation(newNavigation, filterQuery);
+                    }
+                );
 
         // Default layout
         this.layout = 'vertical';
@@ -62,6 +71,8 @@ export class FuseNavbarComponent implements OnDestroy
         {
             this.navigationServiceWatcher.unsubscribe();
         }
+
+        this.onNavigationChanged.unsubscribe();
     }
 
     toggleSidebarOpened(key)
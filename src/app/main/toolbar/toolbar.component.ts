@@ -82,11 +82,16 @@ export class FuseToolbarComponent
                 }
             });
 
-        this.fuseConfig.onConfigChanged.subscribe((settings) => {
-            this.horizontalNav = settings.layout.navigation === 'top';
-            this.noNav = settings.layout.navigation === 'none';
+        this.fuseConfig.select('layout.navigation').subscribe((navigation) => {
+            this.horizontalNav = navigation === 'top';
+            this.noNav = navigation === 'none';
         });
 
+        // Keep the selected language in sync when
+        // it's changed from elsewhere, e.g. the command palette
+        this.translate.onLangChange.subscribe((event) => {
+            this.selectedLanguage = this.languages.find((lang) => lang.id === event.lang) || this.selectedLanguage;
+        });
     }
 
     toggleSidebarOpened(key)
@@ -94,12 +99,6 @@ export class FuseToolbarComponent
         this.sidebarService.getSidebar(key).toggleOpen();
     }
 
-    search(value)
-    {
-        // Do your search here...
-        console.log(value);
-    }
-
     setLanguage(lang)
     {
         // Set the selected language for toolbar
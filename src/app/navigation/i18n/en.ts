@@ -2,7 +2,11 @@ export const locale = {
     lang: 'en',
     data: {
         'NAV': {
-            'APPLICATIONS': 'Applications',
+            'PINNED'       : 'Pinned',
+            'REFRESH'      : 'Refresh',
+            'LOADING_ERROR': 'Couldn\'t load the items.',
+            'RETRY'        : 'Retry',
+            'APPLICATIONS' : 'Applications',
             'SAMPLE'        : {
                 'TITLE': 'Sample',
                 'BADGE': '25'
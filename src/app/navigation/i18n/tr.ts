@@ -2,7 +2,11 @@ export const locale = {
     lang: 'tr',
     data: {
         'NAV': {
-            'APPLICATIONS': 'Programlar',
+            'PINNED'       : 'Sabitlenenler',
+            'REFRESH'      : 'Yenile',
+            'LOADING_ERROR': 'Öğeler yüklenemedi.',
+            'RETRY'        : 'Tekrar dene',
+            'APPLICATIONS' : 'Programlar',
             'SAMPLE'        : {
                 'TITLE': 'Örnek',
                 'BADGE': '15'
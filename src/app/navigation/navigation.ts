@@ -1,4 +1,6 @@
-export const navigation = [
+import { FuseNavigationItem } from '@fuse/types';
+
+export const navigation: FuseNavigationItem[] = [
     {
         'id'      : 'applications',
         'title'   : 'Applications',